@@ -1,11 +1,45 @@
 import { Schema } from 'koishi'
 
+type SkinId = 'md3' | 'anime' | 'newspaper' | 'art' | 'scrapbook'
+type OutputFormat = 'image' | 'pdf' | 'text'
+type Theme = 'light' | 'dark' | 'auto'
+
+const skinSchema: Schema<SkinId> = Schema.union([
+    Schema.const('md3').description('Material Design 3'),
+    Schema.const('anime').description('二次元风格'),
+    Schema.const('newspaper').description('报纸风格'),
+    Schema.const('art').description('艺术风格'),
+    Schema.const('scrapbook').description('手账风格')
+])
+
+const outputFormatSchema: Schema<OutputFormat> = Schema.union([
+    Schema.const('image').description('图片'),
+    Schema.const('pdf').description('PDF'),
+    Schema.const('text').description('文本')
+])
+
+const themeSchema: Schema<Theme> = Schema.union([
+    Schema.const('light').description('亮色主题'),
+    Schema.const('dark').description('暗色主题'),
+    Schema.const('auto').description('自动模式')
+])
+
 export interface GroupListener {
     selfId: string
     channelId: string
     platform: string
     guildId?: string
     enabled: boolean
+    retentionDays?: number
+    maxStoredMessages?: number
+    skin?: SkinId
+    theme?: Theme
+    outputFormat?: OutputFormat
+    maxTopics?: number
+    maxGoldenQuotes?: number
+    promptTopic?: string
+    promptUserTitles?: string
+    promptGoldenQuotes?: string
 }
 
 const GroupListener: Schema<GroupListener> = Schema.object({
@@ -13,7 +47,70 @@ const GroupListener: Schema<GroupListener> = Schema.object({
     selfId: Schema.string().required().description('机器人 ID'),
     channelId: Schema.string().required().description('频道 ID'),
     guildId: Schema.string().description('群组 ID'),
-    enabled: Schema.boolean().default(true).description('是否在此频道启用监听')
+    enabled: Schema.boolean().default(true).description('是否在此频道启用监听'),
+    retentionDays: Schema.number()
+        .min(0)
+        .description('此群消息的保留天数，留空或 0 时使用全局的 retentionDays'),
+    maxStoredMessages: Schema.number()
+        .min(0)
+        .description(
+            '此群最多保存的消息条数，超出时删除最旧的消息，留空或 0 表示不限制'
+        ),
+    skin: skinSchema.description('此群报告的皮肤，留空时使用全局的 skin'),
+    theme: themeSchema.description('此群报告的主题，留空时使用全局的 theme'),
+    outputFormat: outputFormatSchema.description(
+        '此群报告的输出格式，留空时使用全局的 outputFormat'
+    ),
+    maxTopics: Schema.number()
+        .min(0)
+        .description('此群报告的最多话题数，留空或 0 时使用全局的 maxTopics'),
+    maxGoldenQuotes: Schema.number()
+        .min(0)
+        .description(
+            '此群报告的最多金句数，留空或 0 时使用全局的 maxGoldenQuotes'
+        ),
+    promptTopic: Schema.string().description(
+        '此群的话题分析提示词，留空时使用全局的 promptTopic'
+    ),
+    promptUserTitles: Schema.string().description(
+        '此群的用户称号提示词，留空时使用全局的 promptUserTitles'
+    ),
+    promptGoldenQuotes: Schema.string().description(
+        '此群的金句分析提示词，留空时使用全局的 promptGoldenQuotes'
+    )
+})
+
+export interface ReportSchedule {
+    name: string
+    enabled: boolean
+    cron: string
+    days: number
+    outputFormat?: OutputFormat
+    skin?: SkinId
+    groups: string[]
+    cooldown?: number
+}
+
+const ReportSchedule: Schema<ReportSchedule> = Schema.object({
+    name: Schema.string().required().description('任务名称，用于日志区分'),
+    enabled: Schema.boolean().default(true).description('是否启用此定时任务'),
+    cron: Schema.string()
+        .required()
+        .description('CRON 表达式，例如 "0 22 * * *" 或 "0 21 * * 0"'),
+    days: Schema.number().min(1).max(30).default(1).description('分析的天数'),
+    outputFormat: outputFormatSchema.description(
+        '输出格式，留空时使用全局的 outputFormat'
+    ),
+    skin: skinSchema.description('渲染皮肤，留空时使用全局的 skin'),
+    groups: Schema.array(Schema.string())
+        .default([])
+        .description(
+            '发送报告的群（频道 ID 或群组 ID），留空则发送到所有已启用的监听群'
+        ),
+    cooldown: Schema.number()
+        .min(0)
+        .max(1440)
+        .description('冷却时间（分钟），留空时使用全局的 autoAnalysisCooldown')
 })
 
 export interface Config {
@@ -25,15 +122,42 @@ export interface Config {
     model: string
     smallModel?: string
     alwaysPersistMessages: boolean
+    mergeHistorySources: boolean
     retentionDays: number
+    historyBackfill: boolean
+    privateChatRecording: boolean
     promptTopic: string
     promptUserTitles: string
     promptGoldenQuotes: string
+    promptTopicMerge: string
+    promptGoldenQuotesMerge: string
+    promptSharedLinks: string
+    promptSentiment: string
+    promptTopicContinuity: string
     promptUserPersona: string
     promptQueryParser: string
     promptQueryChat: string
-    outputFormat: 'image' | 'pdf' | 'text'
+    outputFormat: OutputFormat
     maxMessages: number
+    chunkContextRatio: number
+    sessionSegmentation: boolean
+    sessionGapMinutes: number
+    trendComparison: boolean
+    wordCloud: boolean
+    wordCloudMaxWords: number
+    wordStopWords: string[]
+    wordDictionary: string[]
+    sharedLinks: boolean
+    maxSharedLinks: number
+    sentimentAnalysis: 'off' | 'lexicon' | 'model'
+    sentimentBatchSize: number
+    topicContinuity: 'off' | 'embedding' | 'llm'
+    topicContinuityDays: number
+    topicContinuityThreshold: number
+    embeddingIndex: boolean
+    embeddings: string
+    embeddingWindowSize: number
+    embeddingTopK: number
     temperature: number
     minMessages: number
     maxTopics: number
@@ -45,6 +169,11 @@ export interface Config {
     cronSchedule: string
     autoAnalysisCooldown: number
     cronAnalysisDays: number
+    reportSchedules: ReportSchedule[]
+    overviewSchedule: string
+    overviewDays: number
+    overviewTargets: string[]
+    overviewMaxGroups: number
     useCalendarDayWindow: boolean
     personaAnalysisMessageInterval: number
     personaCacheLifetimeDays: number
@@ -52,8 +181,11 @@ export interface Config {
     personaMaxMessages: number
     personaMinMessages: number
     registerTools: boolean
-    theme: 'light' | 'dark' | 'auto'
+    theme: Theme
     skin: string
+    imagePagination: boolean
+    imagePageMaxHeight: number
+    imagePageForward: boolean
 
     debug?: boolean
 }
@@ -83,6 +215,29 @@ export const Config: Schema<Config> = Schema.intersect([
         cronAnalysisDays: Schema.number()
             .description('定时任务分析的默认天数。')
             .default(1),
+        reportSchedules: Schema.array(ReportSchedule)
+            .description(
+                '多个命名的定时报告任务，每个任务可单独设置 CRON 表达式、分析天数、输出格式、皮肤和目标群，例如每天 22 点的日报与每周日的周报。与上面的 cronSchedule 可同时使用。'
+            )
+            .default([]),
+        overviewSchedule: Schema.string().description(
+            '定时发送跨群总览排行的 CRON 表达式，留空则禁用。总览只统计各已启用监听群的基础数据，不调用 LLM。'
+        ),
+        overviewDays: Schema.number()
+            .min(1)
+            .max(30)
+            .default(1)
+            .description('定时总览统计的天数，增长榜与等长的上一周期对比。'),
+        overviewTargets: Schema.array(Schema.string())
+            .default([])
+            .description(
+                '接收定时总览的频道，格式为 平台:频道ID，例如 onebot:123456。'
+            ),
+        overviewMaxGroups: Schema.number()
+            .min(1)
+            .max(50)
+            .default(10)
+            .description('总览中每个排行榜最多展示的群数量。'),
         useCalendarDayWindow: Schema.boolean()
             .default(true)
             .description(
@@ -98,15 +253,117 @@ export const Config: Schema<Config> = Schema.intersect([
                 '启用后，无论平台能力如何都会将监听到的消息写入数据库。'
             )
             .default(false),
+        mergeHistorySources: Schema.boolean()
+            .description(
+                '启用后，获取历史消息时会同时查询数据库和平台接口（OneBot 或 Bot API），按消息 ID 去重合并，并将接口返回而数据库缺失的消息写回数据库。'
+            )
+            .default(false),
         retentionDays: Schema.number()
             .description('数据库中缓存消息的最长保留时间（天）。')
             .min(1)
-            .default(7)
+            .default(7),
+        historyBackfill: Schema.boolean()
+            .description(
+                '使用 群分析.启用 启用群分析时，是否在后台将保留期限内的历史消息回填到数据库。仅在开启 alwaysPersistMessages 时生效，中断后会在重启时继续。'
+            )
+            .default(true),
+        privateChatRecording: Schema.boolean()
+            .description(
+                '是否允许用户通过 私聊分析.开启 让机器人记录与其的私聊消息（包括机器人的回复），用于 私聊分析 命令。仅记录主动开启的用户。'
+            )
+            .default(false)
     }).description('消息存储设置'),
     Schema.object({
         maxMessages: Schema.number()
             .description('单次分析的最大消息数量。')
             .default(2000),
+        chunkContextRatio: Schema.percent()
+            .description(
+                '分块分析时，每个消息分块可占用模型上下文长度的比例。消息超出该长度时会先分块提取话题和金句，再合并排序；合并时候选过多也会分组逐级合并。'
+            )
+            .min(0.1)
+            .max(0.9)
+            .step(0.05)
+            .default(0.5),
+        sessionSegmentation: Schema.boolean()
+            .description(
+                '是否在提取话题前，按时间间隔、回复链和 @ 关系将消息切分为多段会话，让模型按会话理解交错进行的讨论（分块时整段会话放在同一分块中），并在话题中标注所属会话的时间范围、消息数和参与者。'
+            )
+            .default(true),
+        sessionGapMinutes: Schema.number()
+            .description(
+                '切分会话时，超过该分钟数没有新消息的会话视为已结束。回复更早的消息时仍会接回原会话。'
+            )
+            .min(5)
+            .max(180)
+            .default(30),
+        trendComparison: Schema.boolean()
+            .description(
+                '是否额外获取上一周期（等长时间窗口）的消息，在报告中展示消息量、参与人数和成员活跃度的环比变化。需要数据库中保留足够长的消息记录。'
+            )
+            .default(true),
+        wordCloud: Schema.boolean()
+            .description(
+                '是否对聊天内容分词统计词频，在报告中展示热词词云，并将群友的常用词提供给称号和用户画像分析。'
+            )
+            .default(true),
+        wordCloudMaxWords: Schema.number()
+            .description('词云中最多展示的词语数量。')
+            .min(10)
+            .max(150)
+            .default(60),
+        wordStopWords: Schema.array(Schema.string())
+            .description('额外的停用词，这些词不会计入词频统计。')
+            .default([]),
+        wordDictionary: Schema.array(Schema.string())
+            .description(
+                '自定义词典，这些词在分词时不会被拆开，例如群内黑话、游戏名或人名。'
+            )
+            .default([]),
+        sharedLinks: Schema.boolean()
+            .description(
+                '是否提取群友分享的链接（包括文字链接和哔哩哔哩、GitHub 等分享卡片），在报告中按域名分组展示，并由 LLM 根据上下文简述分享原因。'
+            )
+            .default(true),
+        maxSharedLinks: Schema.number()
+            .description('报告中最多展示的分享链接数量。')
+            .min(1)
+            .max(50)
+            .default(15),
+        sentimentAnalysis: Schema.union([
+            Schema.const('off').description('关闭'),
+            Schema.const('lexicon').description('本地情感词典'),
+            Schema.const('model').description('小模型打分')
+        ])
+            .description(
+                '群聊情绪分析方式，在报告中按小时展示情绪曲线以及最开心和最紧张的时刻。本地词典无需调用模型；小模型打分更准确，但会按批次调用“小模型”（未配置时使用主模型），失败时自动回退到本地词典。'
+            )
+            .default('lexicon'),
+        sentimentBatchSize: Schema.number()
+            .description('使用小模型打分时，每批发送给模型的消息数量。')
+            .min(10)
+            .max(300)
+            .default(80),
+        topicContinuity: Schema.union([
+            Schema.const('off').description('关闭'),
+            Schema.const('embedding').description('嵌入向量相似度'),
+            Schema.const('llm').description('小模型判断')
+        ])
+            .description(
+                '话题延续追踪方式。开启后会保存每次定时或手动群分析的话题，并与往期话题匹配，在报告中标注“延续自 N 天前”，可通过 群分析.话题历史 查看话题的来龙去脉。嵌入向量需要在语义检索设置中配置嵌入模型，未配置时回退到小模型判断。'
+            )
+            .default('llm'),
+        topicContinuityDays: Schema.number()
+            .description('匹配延续话题时回溯的天数。')
+            .min(1)
+            .max(90)
+            .default(14),
+        topicContinuityThreshold: Schema.number()
+            .description('使用嵌入向量匹配时，视为同一话题所需的最低相似度。')
+            .min(0.5)
+            .max(1)
+            .step(0.01)
+            .default(0.82),
         minMessages: Schema.number()
             .description('进行分析所需的最小消息数量。')
             .min(10)
@@ -141,31 +398,30 @@ export const Config: Schema<Config> = Schema.intersect([
             .default(3)
     }).description('群分析设置'),
     Schema.object({
-        outputFormat: Schema.union([
-            Schema.const('image').description('图片'),
-            Schema.const('pdf').description('PDF'),
-            Schema.const('text').description('文本')
-        ])
+        outputFormat: outputFormatSchema
             .description('默认输出格式。')
             .default('image'),
-        theme: Schema.union([
-            Schema.const('light').description('亮色主题'),
-            Schema.const('dark').description('暗色主题'),
-            Schema.const('auto').description('自动模式')
-        ])
+        theme: themeSchema
             .description(
                 '渲染模板的主题。auto 会在 19:00-06:00 期间自动切换到暗色模式。'
             )
             .default('auto'),
-        skin: Schema.union([
-            Schema.const('md3').description('Material Design 3'),
-            Schema.const('anime').description('二次元风格'),
-            Schema.const('newspaper').description('报纸风格'),
-            Schema.const('art').description('艺术风格'),
-            Schema.const('scrapbook').description('手账风格')
-        ])
-            .description('渲染界面皮肤。')
-            .default('md3')
+        skin: skinSchema.description('渲染界面皮肤。').default('md3'),
+        imagePagination: Schema.boolean()
+            .description(
+                '是否将过长的图片报告在板块之间切分为多张图片发送，避免聊天软件压缩后看不清。'
+            )
+            .default(false),
+        imagePageMaxHeight: Schema.number()
+            .description('分页时每张图片的最大高度（像素）。')
+            .min(1000)
+            .max(20000)
+            .default(4000),
+        imagePageForward: Schema.boolean()
+            .description(
+                '分页后在 OneBot 平台上以合并转发的形式发送，其他平台会依次发送多张图片。'
+            )
+            .default(true)
     }).description('分析渲染设置'),
     Schema.object({
         model: Schema.dynamic('model').description('使用的 LLM 模型。'),
@@ -178,6 +434,28 @@ export const Config: Schema<Config> = Schema.intersect([
             .max(2)
             .default(1.5)
     }).description('LLM 设置'),
+    Schema.object({
+        embeddingIndex: Schema.boolean()
+            .description(
+                '是否为数据库中的消息建立向量索引。开启后，群分析对话会先按问题检索最相关的聊天片段，再结合分析结果回答（例如「某某说过什么」）。需要开启 alwaysPersistMessages，索引保存在 data/chatluna/group_analysis/embeddings。'
+            )
+            .default(false),
+        embeddings: Schema.dynamic('embeddings').description(
+            '用于建立向量索引的 ChatLuna 嵌入模型。'
+        ),
+        embeddingWindowSize: Schema.number()
+            .description(
+                '每个索引片段包含的连续消息条数，间隔超过 30 分钟的消息会被分到不同片段。修改后仅对新建立的片段生效。'
+            )
+            .min(2)
+            .max(50)
+            .default(8),
+        embeddingTopK: Schema.number()
+            .description('每次提问检索的最相关片段数量。')
+            .min(1)
+            .max(20)
+            .default(6)
+    }).description('语义检索设置'),
     Schema.object({
         personaUserFilter: Schema.array(String)
             .role('table')
@@ -230,6 +508,7 @@ export const Config: Schema<Config> = Schema.intersect([
 - 对于其中的部分信息，你需要特意提到主题施加的主体是谁，是哪个群友做了什么事情，而不要直接生成和群友没有关系的语句。
 - 对于每一条总结，尽量讲清楚前因后果，以及话题的结论，是什么，为什么，怎么做，如果用户没有讲到细节，则可以不用这么做。
 - 对于话题的描述内容，请在里面使用用户的昵称而不是用户的ID，避免输出用户ID和字符到话题描述内容中。
+- 群聊记录可能已按会话切分，每段以「【会话 #编号 | 时间 | 消息数 | 参与者】」开头，同一会话中的消息通常属于同一场对话。请以会话为单位梳理讨论，并为每个话题填写它所来自的会话编号，跨多个会话的话题可以填写多个编号；记录没有切分时省略 session。
 
 用户查询：{query}
 用户关注关键词：{keywords}
@@ -248,6 +527,7 @@ export const Config: Schema<Config> = Schema.intersect([
   contributors:
     - "用户1 (用户ID)"
     - "用户2 (用户ID)"
+  session: 1
   detail: |-
     话题描述内容（支持多行文本，
     保留换行符，适合多段落描述，不要在里面添加任何markdown语法，请使用纯文本）
@@ -326,6 +606,137 @@ export const Config: Schema<Config> = Schema.intersect([
   sender: "发言人昵称（注意不是 ID）"
   reason: |-
     选择这句话的理由（需明确说明逆天特质，不要在里面添加任何markdown语法，请使用纯文本）
+\`\`\``
+            ),
+        promptTopicMerge: Schema.string()
+            .description('分块分析时，合并各分块话题的提示词模板。')
+            .role('textarea')
+            .default(
+                `你是一个帮我进行群聊信息总结的助手。由于群聊记录过长，记录被切分成了多个分段，下面是从各个分段中分别提取出的候选话题。不同分段的话题可能描述的是同一件事，也可能高度相关。
+
+请完成以下工作：
+1. 合并描述同一件事或高度相关的话题，合并后的参与者取并集（最多5人），描述需保留各分段中的关键信息、前因后果和结论。
+2. 按照讨论热度、信息价值和逆天程度排序，最多保留{maxTopics}个话题。
+3. 只能使用候选话题中已有的信息，不要编造新的内容。
+4. 话题描述中使用用户的昵称而不是用户的ID。
+5. 候选话题带有会话编号 session 时，合并后的话题保留所有来源话题的会话编号。
+
+用户查询：{query}
+用户关注关键词：{keywords}
+用户关注话题：{topics}
+用户关注昵称：{nicknames}
+目标时间范围：{timeRange}
+
+要求：排序时需优先考虑与上述关键词、话题、昵称与时间范围相关的话题。如果为空的，请忽略。
+
+候选话题：
+{candidates}
+
+请严格按照以下 YAML 格式返回，放在 markdown 代码块中：
+\`\`\`yaml
+- topic: "话题名称"
+  contributors:
+    - "用户1 (用户ID)"
+    - "用户2 (用户ID)"
+  session:
+    - 1
+    - 3
+  detail: |-
+    话题描述内容（支持多行文本，
+    保留换行符，适合多段落描述，不要在里面添加任何markdown语法，请使用纯文本）
+\`\`\``
+            ),
+        promptGoldenQuotesMerge: Schema.string()
+            .description('分块分析时，合并各分块金句的提示词模板。')
+            .role('textarea')
+            .default(
+                `由于群聊记录过长，记录被切分成了多个分段，下面是从各个分段中分别挑选出的候选"金句"。请从中挑选出{maxGoldenQuotes}句最具冲击力、最令人惊叹的金句。
+
+要求：
+- 核心标准：**逆天的神人发言**，即具备颠覆常识的脑洞、逻辑跳脱的表达或强烈反差感的原创内容。
+- 内容相同或几乎相同的金句只保留一句。
+- 按逆天程度从高到低排序。
+- 原文内容和发言人必须与候选金句保持一致，不要改写或编造；理由可以根据需要重新整理。
+
+用户查询：{query}
+用户关注关键词：{keywords}
+用户关注话题：{topics}
+用户关注昵称：{nicknames}
+目标时间范围：{timeRange}
+
+要求：挑选时需优先考虑与上述关键词、话题、昵称与时间范围相关的金句。如果为空的，请忽略。
+
+候选金句：
+{candidates}
+
+请严格按照以下 YAML 格式返回，放在 markdown 代码块中：
+\`\`\`yaml
+- content: |-
+    金句原文
+  sender: "发言人昵称（注意不是 ID）"
+  reason: |-
+    选择这句话的理由（需明确说明逆天特质，不要在里面添加任何markdown语法，请使用纯文本）
+\`\`\``
+            ),
+        promptSharedLinks: Schema.string()
+            .description('分享链接简介的提示词模板。')
+            .role('textarea')
+            .default(
+                `你是一个帮我整理群聊分享内容的助手。下面是群友在群聊中分享的链接，每个链接附有标题（可能缺失）、分享者以及分享前后的聊天记录。
+
+请为每个链接写一句简短的说明（不超过40字），结合上下文说明分享者为什么分享它、群友关心的是什么。要求：
+- 只能依据给出的标题和聊天记录，不要编造链接中的内容。
+- 上下文不足以判断时，根据标题和域名简单概括链接内容。
+- 使用分享者的昵称而不是ID，不要添加任何markdown语法，请使用纯文本。
+
+用户查询：{query}
+用户关注关键词：{keywords}
+用户关注话题：{topics}
+目标时间范围：{timeRange}
+
+分享的链接：
+{links}
+
+请严格按照以下 YAML 格式返回，放在 markdown 代码块中，index 与上面链接的编号一致：
+\`\`\`yaml
+- index: 1
+  note: "分享原因说明"
+\`\`\``
+            ),
+        promptSentiment: Schema.string()
+            .description('小模型情绪打分的提示词模板。')
+            .role('textarea')
+            .default(
+                `请判断下面每条群聊消息表达的情绪倾向，给出 -1 到 1 之间的分数：
+- 1 表示非常开心、兴奋、友善；-1 表示非常愤怒、难过、紧张或充满敌意；0 表示中性或无法判断。
+- 结合网络用语和表情理解语气，反讽或阴阳怪气按其真实情绪打分。
+- 只关注消息本身的情绪，不要评价内容对错。
+
+消息列表：
+{messages}
+
+请严格按照以下 YAML 格式返回，放在 markdown 代码块中，index 与上面消息的编号一致，每条消息都需要给出分数：
+\`\`\`yaml
+- index: 1
+  score: 0.5
+\`\`\``
+            ),
+        promptTopicContinuity: Schema.string()
+            .description('小模型判断话题延续关系的提示词模板。')
+            .role('textarea')
+            .default(
+                `请判断本次群聊总结出的每个话题，是否是往期某个话题的延续。只有讨论的是同一件事、同一个对象或同一场争论的后续时才算延续，仅仅领域相近（例如都在聊游戏）不算。
+
+往期话题：
+{previousTopics}
+
+本次话题：
+{topics}
+
+请严格按照以下 YAML 格式返回，放在 markdown 代码块中，index 与本次话题的编号一致，match 为所延续的往期话题编号，没有延续关系时填 0。每个往期话题最多被一个本次话题延续：
+\`\`\`yaml
+- index: 1
+  match: 0
 \`\`\``
             ),
         promptUserPersona: Schema.string()
@@ -344,6 +755,7 @@ export const Config: Schema<Config> = Schema.intersect([
 历史画像：{previousAnalysis}
 最新聊天记录：{messages}
 用户角色: {roles}
+高频用词: {topWords}
 
 请严格按照以下 YAML 格式返回，放在代码块中：
 \`\`\`yaml
@@ -441,8 +853,11 @@ targetTime:
 分析结果（纯文本）：
 {analysisResult}
 
+与问题相关的聊天片段（语义检索，可能为空）：
+{relevantMessages}
+
 要求：
-1. 结合分析结果回答用户问题，必要时引用关键事实或趋势。
+1. 结合分析结果与相关聊天片段回答用户问题，必要时引用关键事实、原话或趋势。
 2. 若分析结果不足以回答，请说明限制，并给出合理的保守回答。
 3. 回复简洁、中立，不要输出 YAML 或 markdown 代码块。
 `
@@ -0,0 +1,192 @@
+import { h } from 'koishi'
+import { MessageExportFormat, StoredMessage } from './types'
+import { serializeElements } from './utils'
+import { getFaceName } from './onebot/faces'
+
+export interface MessageExportFile {
+    content: string
+    mimeType: string
+    extension: string
+}
+
+const EXPORT_MIME_TYPES: Record<MessageExportFormat, string> = {
+    jsonl: 'application/jsonl',
+    csv: 'text/csv',
+    html: 'text/html'
+}
+
+const CSV_COLUMNS = [
+    'timestamp',
+    'userId',
+    'username',
+    'content',
+    'messageId',
+    'quoteId',
+    'quoteUserId',
+    'mentionedUserIds',
+    'recalled'
+] as const
+
+export function exportMessages(
+    messages: StoredMessage[],
+    format: MessageExportFormat,
+    title: string
+): MessageExportFile {
+    let content: string
+    switch (format) {
+        case 'jsonl':
+            content = exportMessagesToJsonl(messages)
+            break
+        case 'csv':
+            content = exportMessagesToCsv(messages)
+            break
+        case 'html':
+            content = exportMessagesToHtml(messages, title)
+            break
+    }
+
+    return {
+        content,
+        mimeType: EXPORT_MIME_TYPES[format],
+        extension: format
+    }
+}
+
+// Each line matches the input accepted by parseStoredMessageJsonl,
+// so an export can be imported again with 群分析.导入
+export function exportMessagesToJsonl(messages: StoredMessage[]): string {
+    return messages
+        .map((message) => {
+            const { elements, ...rest } = message
+            return JSON.stringify({
+                ...rest,
+                timestamp: new Date(message.timestamp).toISOString(),
+                serializedElements:
+                    message.serializedElements ??
+                    (elements?.length ? serializeElements(elements) : undefined)
+            })
+        })
+        .join('\n')
+}
+
+function escapeCsvField(value: unknown): string {
+    const text = value == null ? '' : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function exportMessagesToCsv(messages: StoredMessage[]): string {
+    const rows = messages.map((message) =>
+        [
+            new Date(message.timestamp).toISOString(),
+            message.userId,
+            message.username,
+            message.content,
+            message.messageId,
+            message.quoteId,
+            message.quoteUserId,
+            (message.mentionedUserIds ?? []).join(' '),
+            message.recalled ? 'true' : ''
+        ]
+            .map(escapeCsvField)
+            .join(',')
+    )
+
+    // BOM so that spreadsheet software detects UTF-8 for Chinese text
+    return '\uFEFF' + [CSV_COLUMNS.join(','), ...rows].join('\r\n')
+}
+
+function formatTime(date: Date) {
+    return new Date(date).toLocaleString('zh-CN', { hour12: false })
+}
+
+function renderElementHtml(element: h): string {
+    const { type, attrs } = element
+    switch (type) {
+        case 'text':
+            return h.escape(attrs.content ?? '').replace(/\n/g, '<br>')
+        case 'at':
+            return `<span class="at">@${h.escape(attrs.name ?? attrs.id ?? '')}</span>`
+        case 'quote':
+            return `<span class="quote">回复 #${h.escape(attrs.id ?? '')}</span>`
+        case 'img':
+        case 'image':
+            return attrs.src && /^https?:\/\//.test(attrs.src)
+                ? `<img src="${h.escape(attrs.src, true)}" loading="lazy" alt="[图片]">`
+                : '<span class="media">[图片]</span>'
+        case 'face':
+            return `<span class="media">[${h.escape(getFaceName(attrs.id ?? '', attrs.name))}]</span>`
+        case 'audio':
+        case 'record':
+            return '<span class="media">[语音]</span>'
+        case 'video':
+            return '<span class="media">[视频]</span>'
+        case 'file':
+            return `<span class="media">[文件${attrs.name ? ` ${h.escape(attrs.name)}` : ''}]</span>`
+        default:
+            return element.children.length
+                ? element.children.map(renderElementHtml).join('')
+                : ''
+    }
+}
+
+function renderMessageHtml(message: StoredMessage): string {
+    const body = message.elements?.length
+        ? message.elements.map(renderElementHtml).join('')
+        : h.escape(message.content ?? '').replace(/\n/g, '<br>')
+
+    const name = `<span class="name">${h.escape(message.username)}</span>`
+    const id = `<span class="id">(${h.escape(message.userId)})</span>`
+    const time = `<span class="time">${formatTime(message.timestamp)}</span>`
+    const flags =
+        (message.recalled ? ' <span class="flag">已撤回</span>' : '') +
+        (message.editedAt ? ' <span class="flag">已编辑</span>' : '')
+
+    return `<div class="message">
+    <div class="meta">${name} ${id} ${time}${flags}</div>
+    <div class="content">${body}</div>
+</div>`
+}
+
+export function exportMessagesToHtml(
+    messages: StoredMessage[],
+    title: string
+): string {
+    const range = messages.length
+        ? `${formatTime(messages[0].timestamp)} ~ ${formatTime(messages[messages.length - 1].timestamp)}`
+        : ''
+
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${h.escape(title)}</title>
+<style>
+    body { margin: 0; padding: 24px; background: #f5f5f7; color: #1d1d1f; font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; }
+    header { max-width: 820px; margin: 0 auto 16px; }
+    header h1 { margin: 0 0 4px; font-size: 22px; }
+    header p { margin: 0; color: #6e6e73; font-size: 13px; }
+    .messages { max-width: 820px; margin: 0 auto; }
+    .message { background: #fff; border-radius: 10px; padding: 10px 14px; margin-bottom: 8px; box-shadow: 0 1px 2px rgba(0, 0, 0, 0.06); }
+    .meta { font-size: 12px; color: #6e6e73; margin-bottom: 4px; }
+    .name { font-weight: 600; color: #1d1d1f; }
+    .content { font-size: 14px; line-height: 1.6; word-break: break-word; }
+    .content img { max-width: 240px; max-height: 240px; border-radius: 6px; vertical-align: middle; }
+    .at { color: #0a66c2; }
+    .quote { display: inline-block; margin-right: 6px; padding: 0 6px; border-left: 3px solid #c7c7cc; color: #6e6e73; font-size: 12px; }
+    .media { color: #8e8e93; }
+    .flag { margin-left: 4px; padding: 0 4px; border-radius: 4px; background: #f2f2f7; color: #8e8e93; }
+</style>
+</head>
+<body>
+<header>
+    <h1>${h.escape(title)}</h1>
+    <p>共 ${messages.length} 条消息${range ? ` · ${range}` : ''}</p>
+</header>
+<div class="messages">
+${messages.map(renderMessageHtml).join('\n')}
+</div>
+</body>
+</html>
+`
+}
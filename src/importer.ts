@@ -0,0 +1,293 @@
+import { h } from 'koishi'
+import path from 'path'
+import { ChatExportFormat, StoredMessage } from './types'
+import { getAvatarUrl } from './utils'
+
+export interface ImportTarget {
+    platform: string
+    selfId: string
+    guildId?: string
+    channelId?: string
+}
+
+interface TelegramTextEntity {
+    type: string
+    text: string
+    user_id?: number | string
+    href?: string
+}
+
+interface TelegramMessage {
+    id: number
+    type: string
+    date: string
+    date_unixtime?: string
+    from?: string
+    from_id?: string
+    text?: string | (string | TelegramTextEntity)[]
+    reply_to_message_id?: number
+    photo?: string
+    sticker_emoji?: string
+    media_type?: string
+    file?: string
+}
+
+// 2023-01-01 12:00:00 昵称(123456789) or 2023-01-01 12:00:00 昵称<a@b.com>
+const QQ_HEADER_PATTERN =
+    /^(\d{4}-\d{1,2}-\d{1,2} \d{1,2}:\d{2}:\d{2}) (.*?)(?:\((\d+)\)|<([^<>]+)>)$/
+
+export function detectExportFormat(
+    filePath: string,
+    content: string
+): ChatExportFormat | null {
+    const ext = path.extname(filePath).toLowerCase()
+    if (ext === '.jsonl') return 'jsonl'
+    if (ext === '.txt') return 'qq'
+
+    const trimmed = content.trimStart()
+    if (trimmed.startsWith('{')) {
+        // A Telegram export is a single object holding a messages array,
+        // a JSONL file has one StoredMessage object per line
+        try {
+            const parsed = JSON.parse(trimmed)
+            if (Array.isArray(parsed?.messages)) return 'telegram'
+        } catch {
+            return 'jsonl'
+        }
+        return 'jsonl'
+    }
+
+    if (content.split(/\r?\n/).some((line) => QQ_HEADER_PATTERN.test(line))) {
+        return 'qq'
+    }
+
+    return null
+}
+
+export function parseChatExport(
+    content: string,
+    format: ChatExportFormat,
+    target: ImportTarget
+): StoredMessage[] {
+    switch (format) {
+        case 'qq':
+            return parseQQTextExport(content, target)
+        case 'jsonl':
+            return parseStoredMessageJsonl(content, target)
+        case 'telegram':
+            return parseTelegramExport(content, target)
+    }
+}
+
+function buildImportedMessage(
+    target: ImportTarget,
+    message: Pick<
+        StoredMessage,
+        'userId' | 'username' | 'content' | 'timestamp' | 'messageId'
+    > &
+        Partial<StoredMessage>
+): StoredMessage {
+    return {
+        avatarUrl: '',
+        ...message,
+        id: `${target.platform}_${target.selfId}_${target.channelId ?? target.guildId}_${message.messageId}`,
+        platform: target.platform,
+        selfId: target.selfId,
+        guildId: target.guildId ?? target.channelId,
+        channelId: target.channelId ?? target.guildId
+    }
+}
+
+function hashText(text: string) {
+    // FNV-1a, only used to derive stable ids for exports without message ids
+    let hash = 0x811c9dc5
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return (hash >>> 0).toString(36)
+}
+
+export function parseQQTextExport(
+    content: string,
+    target: ImportTarget
+): StoredMessage[] {
+    const messages: StoredMessage[] = []
+    const seen = new Map<string, number>()
+    let current: {
+        timestamp: Date
+        username: string
+        userId: string
+        lines: string[]
+    } | null = null
+
+    const flush = () => {
+        if (!current) return
+        const text = current.lines.join('\n').trim()
+        if (text) {
+            const base = `${current.timestamp.getTime()}_${current.userId}_${hashText(text)}`
+            // Identical messages sent in the same second still get distinct ids
+            const occurrence = seen.get(base) ?? 0
+            seen.set(base, occurrence + 1)
+
+            messages.push(
+                buildImportedMessage(target, {
+                    userId: current.userId,
+                    username: current.username || current.userId,
+                    content: text,
+                    timestamp: current.timestamp,
+                    messageId: `qqtxt_${base}_${occurrence}`,
+                    avatarUrl: /^\d+$/.test(current.userId)
+                        ? getAvatarUrl(current.userId)
+                        : ''
+                })
+            )
+        }
+        current = null
+    }
+
+    for (const line of content.split(/\r?\n/)) {
+        const header = QQ_HEADER_PATTERN.exec(line)
+        if (header) {
+            flush()
+            const [, time, username, qq, email] = header
+            const [year, month, day, hour, minute, second] = time
+                .split(/[-: ]/)
+                .map(Number)
+            const timestamp = new Date(
+                year,
+                month - 1,
+                day,
+                hour,
+                minute,
+                second
+            )
+            if (isNaN(timestamp.getTime())) continue
+            current = {
+                timestamp,
+                username: username.trim(),
+                userId: qq ?? email,
+                lines: []
+            }
+            continue
+        }
+
+        if (current) current.lines.push(line)
+    }
+
+    flush()
+    return messages
+}
+
+export function parseStoredMessageJsonl(
+    content: string,
+    target: ImportTarget
+): StoredMessage[] {
+    const messages: StoredMessage[] = []
+
+    const lines = content.split(/\r?\n/)
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index]
+        if (!line.trim()) continue
+
+        let raw: Partial<StoredMessage> & { timestamp?: string | number }
+        try {
+            raw = JSON.parse(line)
+        } catch {
+            throw new Error(`第 ${index + 1} 行不是合法的 JSON`)
+        }
+        const timestamp = new Date(raw.timestamp)
+        if (!raw.userId || raw.content == null || isNaN(timestamp.getTime())) {
+            continue
+        }
+
+        const userId = String(raw.userId)
+        messages.push(
+            buildImportedMessage(target, {
+                userId,
+                username: raw.username || userId,
+                content: raw.content,
+                timestamp,
+                messageId:
+                    raw.messageId ??
+                    `jsonl_${timestamp.getTime()}_${userId}_${hashText(raw.content)}`,
+                avatarUrl: raw.avatarUrl || '',
+                quoteId: raw.quoteId,
+                quoteUserId: raw.quoteUserId,
+                mentionedUserIds: raw.mentionedUserIds,
+                serializedElements: raw.serializedElements,
+                recalled: raw.recalled
+            })
+        )
+    }
+
+    return messages
+}
+
+export function parseTelegramExport(
+    content: string,
+    target: ImportTarget
+): StoredMessage[] {
+    const data = JSON.parse(content) as { messages?: TelegramMessage[] }
+    const messages: StoredMessage[] = []
+
+    for (const raw of data.messages ?? []) {
+        if (raw.type !== 'message' || !raw.from_id) continue
+
+        const timestamp = raw.date_unixtime
+            ? new Date(Number(raw.date_unixtime) * 1000)
+            : new Date(raw.date)
+        if (isNaN(timestamp.getTime())) continue
+
+        const userId = raw.from_id.replace(/^(user|channel)/, '')
+        const entities =
+            typeof raw.text === 'string' ? [raw.text] : (raw.text ?? [])
+
+        const elements: h[] = []
+        if (raw.reply_to_message_id != null) {
+            elements.push(h('quote', { id: String(raw.reply_to_message_id) }))
+        }
+
+        for (const entity of entities) {
+            if (typeof entity === 'string') {
+                if (entity) elements.push(h.text(entity))
+            } else if (entity.type === 'mention_name') {
+                elements.push(
+                    h('at', { id: String(entity.user_id), name: entity.text })
+                )
+            } else if (entity.type === 'mention') {
+                elements.push(h('at', { name: entity.text.replace(/^@/, '') }))
+            } else if (entity.text) {
+                elements.push(h.text(entity.text))
+            }
+        }
+
+        if (raw.photo) {
+            elements.push(h('img', { src: raw.photo }))
+        } else if (raw.media_type === 'sticker') {
+            elements.push(
+                h('img', {
+                    src: raw.file,
+                    subType: 1,
+                    summary: raw.sticker_emoji
+                })
+            )
+        }
+
+        if (!elements.length) continue
+
+        messages.push(
+            buildImportedMessage(target, {
+                userId,
+                username: raw.from || userId,
+                content: elements.join(''),
+                timestamp,
+                messageId: String(raw.id),
+                elements
+            })
+        )
+    }
+
+    return messages
+}
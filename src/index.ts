@@ -1,13 +1,18 @@
 import { Context } from 'koishi'
 
 import { AnalysisService } from './service/analysis'
+import { BackfillService } from './service/backfill'
+import { EmbeddingService } from './service/embedding'
 import { LLMService } from './service/llm'
 import { RendererService } from './service/renderer'
 import { MessageService } from './service/message'
 import { plugin } from './plugin'
 import type {} from 'koishi-plugin-puppeteer'
-import type { Config as GroupAnalysisConfig } from './config'
-import { modelSchema } from 'koishi-plugin-chatluna/utils/schema'
+import type { Config as GroupAnalysisConfig, ReportSchedule } from './config'
+import {
+    embeddingsSchema,
+    modelSchema
+} from 'koishi-plugin-chatluna/utils/schema'
 import { cron } from './cron'
 
 export * from './config'
@@ -15,7 +20,9 @@ export * from './service/message'
 
 export function apply(ctx: Context, config: GroupAnalysisConfig) {
     ctx.plugin(MessageService, config)
+    ctx.plugin(BackfillService, config)
     ctx.plugin(LLMService, config)
+    ctx.plugin(EmbeddingService, config)
     ctx.plugin(AnalysisService, config)
     ctx.plugin(RendererService, config)
 
@@ -35,20 +42,74 @@ export function apply(ctx: Context, config: GroupAnalysisConfig) {
     })
 
     modelSchema(ctx)
+    embeddingsSchema(ctx)
 }
 
 function scheduleAutoAnalysis(ctx: Context, config: GroupAnalysisConfig) {
-    if (!config.cronSchedule?.trim()) {
-        return () => {}
+    const schedules: ReportSchedule[] = (config.reportSchedules ?? []).filter(
+        (schedule) => schedule.enabled && schedule.cron?.trim()
+    )
+
+    // The single legacy schedule keeps working next to the named ones
+    if (config.cronSchedule?.trim()) {
+        schedules.unshift({
+            name: 'default',
+            enabled: true,
+            cron: config.cronSchedule,
+            days: config.cronAnalysisDays,
+            groups: []
+        })
     }
 
-    return cron(
-        ctx,
-        config.cronSchedule,
-        () => ctx.chatluna_group_analysis.executeAutoAnalysisForEnabledGroups(),
-        {
-            cooldown: config.autoAnalysisCooldown,
-            name: 'chatluna-group-analysis'
+    // Every schedule gets its own job, and with it its own cooldown and
+    // last-run state
+    const disposables = schedules.flatMap((schedule) => {
+        try {
+            return [
+                cron(
+                    ctx,
+                    schedule.cron,
+                    () =>
+                        ctx.chatluna_group_analysis.executeAutoAnalysisForEnabledGroups(
+                            schedule
+                        ),
+                    {
+                        cooldown:
+                            schedule.cooldown ?? config.autoAnalysisCooldown,
+                        name: `chatluna-group-analysis:${schedule.name}`
+                    }
+                )
+            ]
+        } catch (error) {
+            ctx.logger.warn(
+                `定时任务 ${schedule.name} 的 CRON 表达式 "${schedule.cron}" 无效:`,
+                error
+            )
+            return []
         }
-    )
+    })
+
+    if (config.overviewSchedule?.trim()) {
+        try {
+            disposables.push(
+                cron(
+                    ctx,
+                    config.overviewSchedule,
+                    () =>
+                        ctx.chatluna_group_analysis.executeScheduledOverview(),
+                    {
+                        cooldown: config.autoAnalysisCooldown,
+                        name: 'chatluna-group-analysis:overview'
+                    }
+                )
+            )
+        } catch (error) {
+            ctx.logger.warn(
+                `定时总览的 CRON 表达式 "${config.overviewSchedule}" 无效:`,
+                error
+            )
+        }
+    }
+
+    return () => disposables.forEach((dispose) => dispose())
 }
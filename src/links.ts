@@ -0,0 +1,188 @@
+import { h } from 'koishi'
+import { SharedLink, StoredMessage } from './types'
+
+// Chat messages rarely percent-encode, so CJK text right after a url ends it
+export const LINK_PATTERN =
+    /https?:\/\/[^\s<>"'）)\]，。！？；、\u3400-\u9fff]+/g
+
+export interface ExtractedLink {
+    url: string
+    title?: string
+    source: SharedLink['source']
+}
+
+// Fields of OneBot ark cards that point to the shared page, most specific first
+const CARD_URL_FIELDS = ['qqdocurl', 'jumpUrl', 'jump_url', 'url']
+
+// Trailing punctuation that is almost never part of the link itself
+const TRAILING_PUNCTUATION = /[.,;:!?，。；：！？、]+$/
+
+function normalizeUrl(url: string) {
+    return url.replace(/&amp;/g, '&').replace(TRAILING_PUNCTUATION, '')
+}
+
+/**
+ * Domain shown for a link, without the `www.` prefix
+ * @returns undefined for invalid urls
+ */
+export function getLinkDomain(url: string): string | undefined {
+    try {
+        return new URL(url).hostname.replace(/^www\./, '')
+    } catch {
+        return undefined
+    }
+}
+
+function findCardLink(
+    value: unknown
+): { url: string; title?: string } | undefined {
+    if (!value || typeof value !== 'object') return undefined
+    const entry = value as Record<string, unknown>
+
+    const url = CARD_URL_FIELDS.map((field) => entry[field]).find(
+        (candidate): candidate is string =>
+            typeof candidate === 'string' && /^https?:\/\//.test(candidate)
+    )
+    if (url) {
+        // Mini-app cards (Bilibili etc.) put the app name in `title` and the
+        // content title in `desc`, structured news cards do the opposite
+        const title = entry.qqdocurl ? entry.desc || entry.title : entry.title
+        return {
+            url,
+            title: typeof title === 'string' ? title : undefined
+        }
+    }
+
+    for (const child of Object.values(entry)) {
+        const found = findCardLink(child)
+        if (found) return found
+    }
+}
+
+/**
+ * Parse the link of a OneBot JSON card, e.g. Bilibili or GitHub shares
+ * @param data Raw JSON string of the `json` segment
+ */
+export function parseJsonCardLink(data: string): ExtractedLink | undefined {
+    let card: { meta?: unknown; prompt?: string }
+    try {
+        card = JSON.parse(data)
+    } catch {
+        return undefined
+    }
+
+    const found = findCardLink(card?.meta)
+    if (!found) return undefined
+
+    return {
+        url: found.url,
+        title: found.title || card.prompt?.replace(/^\[[^\]]*\]/, ''),
+        source: 'card'
+    }
+}
+
+function parseXmlCardLink(data: string): ExtractedLink | undefined {
+    const url = data.match(/\burl="(https?:\/\/[^"]+)"/)?.[1]
+    if (!url) return undefined
+    return {
+        url,
+        title: data.match(/<title>([^<]*)<\/title>/)?.[1],
+        source: 'card'
+    }
+}
+
+/**
+ * Extract the links carried by a message element
+ * @param el Satori element or raw OneBot segment
+ */
+export function extractElementLinks(el: h): ExtractedLink[] {
+    const { attrs } = el
+    let links: ExtractedLink[]
+
+    switch (el.type) {
+        case 'text':
+            links = (String(attrs.content ?? '').match(LINK_PATTERN) ?? []).map(
+                (url): ExtractedLink => ({ url, source: 'text' })
+            )
+            break
+        case 'a':
+            links = attrs.href ? [{ url: attrs.href, source: 'text' }] : []
+            break
+        case 'share':
+            links = attrs.url
+                ? [{ url: attrs.url, title: attrs.title, source: 'card' }]
+                : []
+            break
+        case 'json':
+            links = [parseJsonCardLink(String(attrs.data ?? ''))]
+            break
+        case 'xml':
+            links = [parseXmlCardLink(String(attrs.data ?? ''))]
+            break
+        default:
+            links = []
+    }
+
+    return links
+        .filter((link) => link && getLinkDomain(link.url))
+        .map((link) => ({
+            ...link,
+            url: normalizeUrl(link.url),
+            title: link.title?.trim() || undefined
+        }))
+}
+
+/**
+ * Keep the most shared links, earliest first among equals
+ * @param links Links extracted by calculateBasicStats
+ * @param limit Maximum number of links to keep
+ */
+export function selectSharedLinks(
+    links: SharedLink[],
+    limit: number
+): SharedLink[] {
+    return [...links]
+        .sort(
+            (a, b) =>
+                b.shareCount - a.shareCount ||
+                a.timestamp.getTime() - b.timestamp.getTime()
+        )
+        .slice(0, limit)
+}
+
+/**
+ * Format the messages around the first share of each link for the LLM
+ * @param links Links to describe
+ * @param messages Messages of the analyzed window, in time order
+ * @param radius Number of messages kept before and after the share
+ */
+export function buildLinkContexts(
+    links: SharedLink[],
+    messages: StoredMessage[],
+    radius = 3
+): string[] {
+    const indexes = new Map(
+        messages.map((message, index) => [message.id, index])
+    )
+
+    return links.map((link) => {
+        const index = indexes.get(link.messageId)
+        if (index == null) return ''
+
+        return messages
+            .slice(Math.max(0, index - radius), index + radius + 1)
+            .map((message) => {
+                const text = h
+                    .select(
+                        message.elements ?? h.parse(message.content),
+                        'text'
+                    )
+                    .map((element) => element.attrs.content)
+                    .join('')
+                    .replace(/\s+/g, ' ')
+                    .trim()
+                return `${message.username}: ${text.slice(0, 120) || '[非文字消息]'}`
+            })
+            .join('\n')
+    })
+}
@@ -1,11 +1,31 @@
 /* eslint-disable max-len */
-import { Context, Session, User } from 'koishi'
+import { Context, h, Session, User } from 'koishi'
+import { parseDate, zh } from 'chrono-node'
+import { promises as fs } from 'fs'
 import { Config } from '../config'
-import { shouldListenToMessage } from '../utils'
+import { exportMessages } from '../exporter'
+import { detectExportFormat, parseChatExport } from '../importer'
+import { formatSearchResultText } from '../search'
+import { skinRegistry } from '../skins'
+import { ChatExportFormat, MessageExportFormat, MessageFilter } from '../types'
+import {
+    getGroupRetentionDays,
+    resolveGroupConfig,
+    shouldListenToMessage
+} from '../utils'
 
 export const inject = {
     chatluna_group_analysis: {
         required: true
+    },
+    chatluna_group_analysis_message: {
+        required: true
+    },
+    chatluna_group_analysis_backfill: {
+        required: false
+    },
+    chatluna_group_analysis_renderer: {
+        required: false
     }
 }
 
@@ -27,6 +47,23 @@ export function apply(ctx: Context, config: Config) {
         )
     }
 
+    // Ids given with -g / -c name another group, so the ids of the session
+    // the command was sent from must not be mixed into them. QQ groups use
+    // the group id as channel id.
+    const resolveTarget = (
+        session: Session,
+        options: { group?: string; channel?: string }
+    ) =>
+        options.group || options.channel
+            ? {
+                  guildId: options.group,
+                  channelId: options.channel ?? options.group
+              }
+            : {
+                  guildId: session.guildId ?? undefined,
+                  channelId: session.channelId ?? undefined
+              }
+
     const settings = ctx
         .command('群分析 [query:text]', '分析本群的近期聊天记录')
         .usage(
@@ -130,7 +167,14 @@ export function apply(ctx: Context, config: Config) {
                 })
             }
 
-            ctx.scope.parent.scope.parent.scope.update(config, true)
+            // The job is stored before the reload below and resumed afterwards
+            const backfill =
+                await ctx.chatluna_group_analysis_backfill?.startBackfill({
+                    platform: session.platform,
+                    selfId: session.selfId,
+                    guildId: session.guildId,
+                    channelId: session.channelId
+                })
 
             const guildId = session.event.guild.id
 
@@ -139,7 +183,14 @@ export function apply(ctx: Context, config: Config) {
                     .getGuild(guildId)
                     .then((guild) => guild.name)) || session.event.guild.name
 
-            return `已为当前群 ${guildName} (${guildId}) 启用日常分析功能。`
+            ctx.scope.parent.scope.parent.scope.update(config, true)
+
+            return (
+                `已为当前群 ${guildName} (${guildId}) 启用日常分析功能。` +
+                (backfill
+                    ? `\n正在后台回填最近 ${getGroupRetentionDays(config, session)} 天的历史消息，完成后会在群内通知，可使用 群分析.状态 查看进度。`
+                    : '')
+            )
         })
 
     settings
@@ -223,7 +274,571 @@ export function apply(ctx: Context, config: Config) {
                     .then((guild) => guild.name)) || session.event.guild.name
 
             const enabled = originalGroupSetting?.enabled ? '已启用' : '未启用'
-            return `当前群 ${guildName} (${guildId}) 分析功能状态: ${enabled}`
+
+            const backfill =
+                await ctx.chatluna_group_analysis_backfill?.getBackfillJob({
+                    platform: session.platform,
+                    selfId: session.selfId,
+                    guildId: session.guildId,
+                    channelId: session.channelId
+                })
+            const backfillStatus = {
+                pending: '等待中',
+                running: '进行中',
+                completed: '已完成',
+                failed: '失败'
+            }
+
+            return (
+                `当前群 ${guildName} (${guildId}) 分析功能状态: ${enabled}` +
+                (backfill
+                    ? `\n历史消息回填: ${backfillStatus[backfill.status]}，已写入 ${backfill.fetched} 条` +
+                      (backfill.oldestTimestamp
+                          ? `，最早至 ${new Date(backfill.oldestTimestamp).toLocaleString('zh-CN', { hour12: false })}`
+                          : '') +
+                      (backfill.error ? `，错误: ${backfill.error}` : '')
+                    : '')
+            )
+        })
+
+    settings
+        .subcommand('.storage', '查看各群在数据库中保存的消息', {
+            authority: 3
+        })
+        .alias('.存储')
+        .action(async () => {
+            const stats =
+                await ctx.chatluna_group_analysis_message.getStorageStats()
+
+            if (!stats.length) return '数据库中暂无保存的消息。'
+
+            const formatDate = (date: Date) =>
+                date.toLocaleString('zh-CN', { hour12: false })
+
+            const lines = stats.map(
+                (group) =>
+                    `${group.platform} ${group.guildId || group.channelId}: ${group.count} 条 | ` +
+                    `${formatDate(group.start)} ~ ${formatDate(group.end)} | ` +
+                    `保留 ${group.retentionDays} 天` +
+                    (group.maxStoredMessages
+                        ? ` | 上限 ${group.maxStoredMessages} 条`
+                        : '')
+            )
+
+            const total = stats.reduce((sum, group) => sum + group.count, 0)
+
+            return `数据库中共保存 ${total} 条消息：\n${lines.join('\n')}`
+        })
+
+    settings
+        .subcommand('.overview', '查看所有监听群的消息排行总览', {
+            authority: 3
+        })
+        .alias('.总览')
+        .option('days', '-d <days:posint> 统计的天数')
+        .option('format', '-o <format:string> 输出格式 (image/text)')
+        .action(async ({ session, options }) => {
+            const format = options.format as 'image' | 'text'
+            if (format && !['image', 'text'].includes(format)) {
+                return '输出格式仅支持 image 或 text。'
+            }
+
+            const days = Math.min(options.days ?? config.overviewDays, 30)
+            if (!config.listenerGroups.some((group) => group.enabled)) {
+                return '暂无已启用的监听群，无法生成总览。'
+            }
+
+            await session.send(`正在统计各群近 ${days} 天的数据，请稍候...`)
+
+            try {
+                const overview =
+                    await ctx.chatluna_group_analysis.buildGroupOverview(days)
+                return await ctx.chatluna_group_analysis.renderOverviewResult(
+                    overview,
+                    format
+                )
+            } catch (err) {
+                ctx.logger.error('生成群聊总览时发生错误:', err)
+                return '总览生成失败，请检查日志。'
+            }
+        })
+
+    settings
+        .subcommand('.history', '查看本群的历史分析报告')
+        .alias('.历史')
+        .option('limit', '-n <limit:posint> 显示的报告数量', { fallback: 10 })
+        .option('group', '-g <guildId:string> 指定群号', {
+            authority: 3
+        })
+        .option('channel', '-c <channelId:string> 指定频道号', {
+            authority: 3
+        })
+        .action(async ({ session, options }) => {
+            if (session.isDirect && !options.group && !options.channel) {
+                return '私聊中请使用 -g 或 -c 指定目标群或频道。'
+            }
+
+            const reports = await ctx.chatluna_group_analysis.listGroupReports(
+                session.selfId,
+                {
+                    guildId: options.group ?? session.guildId ?? undefined,
+                    channelId: options.channel ?? session.channelId ?? undefined
+                },
+                Math.min(options.limit, 50)
+            )
+
+            if (!reports.length) {
+                return '暂无历史分析报告。'
+            }
+
+            const formatTime = (date: Date) =>
+                new Date(date).toLocaleString('zh-CN', { hour12: false })
+
+            const lines = reports.map(
+                (report) =>
+                    `#${report.id} ${formatTime(report.createdAt)} | ` +
+                    `${formatTime(report.startTime)} ~ ${formatTime(report.endTime)} | ` +
+                    `${report.totalMessages} 条消息 | ${report.model} | ${report.skin}` +
+                    (report.query ? `\n    查询: ${report.query}` : '')
+            )
+
+            return (
+                `${reports[0].groupName} 的历史分析报告：\n` +
+                lines.join('\n') +
+                '\n使用 群分析.查看 <编号> 重新查看报告。'
+            )
+        })
+
+    settings
+        .subcommand('.topics [keyword:text]', '查看本群反复出现的话题')
+        .alias('.话题历史')
+        .usage(
+            '不带参数时列出本群在多天中反复出现的话题，带关键词时展示匹配话题每天的讨论情况。\n' +
+                '需要开启 topicContinuity，话题只会在定时或手动群分析后记录。'
+        )
+        .option('limit', '-n <limit:posint> 显示的话题数量', { fallback: 10 })
+        .option('group', '-g <guildId:string> 指定群号', {
+            authority: 3
+        })
+        .option('channel', '-c <channelId:string> 指定频道号', {
+            authority: 3
+        })
+        .action(async ({ session, options }, keyword) => {
+            if (session.isDirect && !options.group && !options.channel) {
+                return '私聊中请使用 -g 或 -c 指定目标群或频道。'
+            }
+
+            const target = {
+                guildId: options.group ?? session.guildId ?? undefined,
+                channelId: options.channel ?? session.channelId ?? undefined
+            }
+            const formatDate = (date: Date) =>
+                new Date(date).toLocaleDateString('zh-CN')
+
+            if (!keyword?.trim()) {
+                const threads =
+                    await ctx.chatluna_group_analysis.listTopicThreads(
+                        session.selfId,
+                        target,
+                        Math.min(options.limit, 30)
+                    )
+                if (!threads.length) {
+                    return '暂无反复出现的话题。'
+                }
+
+                const lines = threads.map(
+                    (thread, index) =>
+                        `${index + 1}. ${thread.topic} | ` +
+                        `${formatDate(thread.firstSeenAt)} ~ ${formatDate(thread.lastSeenAt)} | 累计 ${thread.entries.length} 天`
+                )
+                return (
+                    '本群反复出现的话题：\n' +
+                    lines.join('\n') +
+                    '\n使用 群分析.话题历史 <关键词> 查看话题的来龙去脉。'
+                )
+            }
+
+            const thread = await ctx.chatluna_group_analysis.findTopicThread(
+                session.selfId,
+                target,
+                keyword
+            )
+            if (!thread) return `未找到包含「${keyword.trim()}」的话题。`
+
+            const lines = thread.entries.map((entry) => {
+                const detail = entry.detail.replace(/\s+/g, ' ')
+                return (
+                    `${formatDate(entry.endTime)} ${entry.topic}` +
+                    (entry.contributors?.length
+                        ? ` (参与者: ${entry.contributors.join(', ')})`
+                        : '') +
+                    `\n    ${detail.length > 100 ? detail.slice(0, 100) + '…' : detail}`
+                )
+            })
+
+            return (
+                `话题「${thread.topic}」的来龙去脉，累计 ${thread.entries.length} 天：\n` +
+                lines.join('\n')
+            )
+        })
+
+    settings
+        .subcommand('.view <id:posint>', '重新查看一份历史分析报告')
+        .alias('.查看')
+        .option('format', '-o <format:string> 输出格式 (image/pdf/text)')
+        .action(async ({ session, options }, id) => {
+            if (!id) return '请提供报告编号，可使用 群分析.历史 查看。'
+
+            const format = options.format as 'image' | 'pdf' | 'text'
+            if (format && !['image', 'pdf', 'text'].includes(format)) {
+                return '输出格式仅支持 image、pdf 或 text。'
+            }
+
+            const report = await ctx.chatluna_group_analysis.getGroupReport(id)
+            if (!report) return `未找到编号为 ${id} 的分析报告。`
+
+            const { record } = report
+            const isSameGroup =
+                record.selfId === session.selfId &&
+                ((!!record.guildId && record.guildId === session.guildId) ||
+                    (!!record.channelId &&
+                        record.channelId === session.channelId))
+
+            if (
+                !isSameGroup &&
+                ((session as Session<User.Field>).user?.authority ?? 0) < 3
+            ) {
+                return '你没有权限查看其他群的分析报告。当前需要的权限为 3 级。'
+            }
+
+            const groupConfig = resolveGroupConfig(
+                config,
+                record.selfId,
+                record
+            )
+
+            try {
+                return await ctx.chatluna_group_analysis.renderAnalysisResult(
+                    report.result,
+                    format,
+                    session.platform,
+                    {
+                        ...groupConfig,
+                        // Keep the look the report was first sent with
+                        skin: skinRegistry.has(record.skin)
+                            ? (record.skin as Config['skin'])
+                            : groupConfig.skin
+                    }
+                )
+            } catch (err) {
+                ctx.logger.error(`渲染历史分析报告 #${id} 时发生错误:`, err)
+                return '报告渲染失败，请检查日志。'
+            }
+        })
+
+    settings
+        .subcommand('.import <path:text>', '从导出的聊天记录文件导入历史消息', {
+            authority: 3
+        })
+        .alias('.导入')
+        .usage(
+            '支持 QQ 电脑版导出的 .txt 消息记录、每行一条 StoredMessage 的 .jsonl 文件，以及 Telegram 导出的 result.json。\n' +
+                '默认导入到当前群，可使用 -g 或 -c 指定目标群或频道。'
+        )
+        .option(
+            'format',
+            '-f <format:string> 文件格式 (qq/jsonl/telegram)，默认自动识别'
+        )
+        .option('group', '-g <guildId:string> 指定群号')
+        .option('channel', '-c <channelId:string> 指定频道号')
+        .action(async ({ session, options }, filePath) => {
+            if (!filePath) return '请提供要导入的文件路径。'
+
+            const { guildId, channelId } = resolveTarget(session, options)
+
+            if (session.isDirect && !options.group && !options.channel) {
+                return '私聊中请使用 -g 或 -c 指定目标群或频道。'
+            }
+
+            let content: string
+            try {
+                content = await fs.readFile(filePath.trim(), 'utf-8')
+            } catch (err) {
+                ctx.logger.warn(`读取导入文件 ${filePath} 失败:`, err)
+                return `无法读取文件 ${filePath}，请检查路径是否正确。`
+            }
+
+            const format =
+                (options.format as ChatExportFormat) ??
+                detectExportFormat(filePath, content)
+            if (!format || !['qq', 'jsonl', 'telegram'].includes(format)) {
+                return '无法识别文件格式，请使用 -f 指定 qq、jsonl 或 telegram。'
+            }
+
+            let messages: ReturnType<typeof parseChatExport>
+            try {
+                messages = parseChatExport(content, format, {
+                    platform: session.platform,
+                    selfId: session.selfId,
+                    guildId,
+                    channelId
+                })
+            } catch (err) {
+                ctx.logger.warn(`解析导入文件 ${filePath} 失败:`, err)
+                return `解析文件失败: ${err instanceof Error ? err.message : err}`
+            }
+
+            if (!messages.length) return '文件中没有可导入的消息。'
+
+            const { imported, skipped } =
+                await ctx.chatluna_group_analysis_message.importMessages(
+                    messages
+                )
+
+            const retentionDays = getGroupRetentionDays(config, {
+                platform: session.platform,
+                selfId: session.selfId,
+                guildId,
+                channelId
+            })
+            const retentionStart =
+                Date.now() - retentionDays * 24 * 60 * 60 * 1000
+            const expired = messages.filter(
+                (message) => message.timestamp.getTime() < retentionStart
+            ).length
+
+            return (
+                `已从 ${filePath} 导入 ${imported} 条消息，跳过 ${skipped} 条重复消息。` +
+                (expired
+                    ? `\n其中 ${expired} 条早于消息保留期限（${retentionDays} 天），将在下次清理时被删除。`
+                    : '')
+            )
+        })
+
+    settings
+        .subcommand('.export', '导出本群的聊天记录', {
+            authority: 3
+        })
+        .alias('.导出')
+        .usage(
+            '将聊天记录导出为 JSONL、CSV 或 HTML 文件，JSONL 文件可通过 群分析.导入 重新导入。\n' +
+                '时间支持自然语言或日期，例如：/群分析.导出 -f html --start 昨天18点 --end 今天9点'
+        )
+        .option('format', '-f <format:string> 导出格式 (jsonl/csv/html)', {
+            fallback: 'jsonl'
+        })
+        .option('group', '-g <guildId:string> 指定群号')
+        .option('channel', '-c <channelId:string> 指定频道号')
+        .option(
+            'user',
+            '-u <userIds:string> 只导出指定用户的消息，多个用户以逗号分隔'
+        )
+        .option('start', '--start <time:string> 开始时间')
+        .option('end', '--end <time:string> 结束时间')
+        .option('limit', '-n <limit:posint> 最多导出的消息数量', {
+            fallback: 1000
+        })
+        .option('offset', '--offset <offset:natural> 跳过最近的若干条消息')
+        .option('recalled', '-r 包含已撤回的消息')
+        .action(async ({ session, options }) => {
+            if (session.isDirect && !options.group && !options.channel) {
+                return '私聊中请使用 -g 或 -c 指定目标群或频道。'
+            }
+
+            const format = options.format as MessageExportFormat
+            if (!['jsonl', 'csv', 'html'].includes(format)) {
+                return '导出格式仅支持 jsonl、csv 或 html。'
+            }
+
+            const startTime = parseCommandTime(options.start)
+            const endTime = parseCommandTime(options.end)
+            if (startTime === null || endTime === null) {
+                return `无法识别时间 ${startTime === null ? options.start : options.end}，请使用如 "昨天18点" 或 "2024-01-01 12:00" 的格式。`
+            }
+            if (startTime && endTime && startTime > endTime) {
+                return '开始时间不能晚于结束时间。'
+            }
+
+            const { guildId, channelId } = resolveTarget(session, options)
+            const userId = parseUserIds(options.user)
+
+            const messages =
+                await ctx.chatluna_group_analysis_message.getHistoricalMessages(
+                    {
+                        guildId,
+                        channelId,
+                        userId,
+                        selfId: session.selfId,
+                        startTime,
+                        endTime,
+                        limit: Math.min(options.limit, MAX_EXPORT_LIMIT),
+                        offset: options.offset,
+                        purpose: 'general',
+                        includeRecalled: options.recalled ?? false
+                    }
+                )
+
+            if (!messages.length) return '没有符合条件的消息可以导出。'
+
+            messages.sort(
+                (a, b) =>
+                    new Date(a.timestamp).getTime() -
+                    new Date(b.timestamp).getTime()
+            )
+
+            const target = guildId ?? channelId
+            const file = exportMessages(
+                messages,
+                format,
+                `群 ${target} 的聊天记录`
+            )
+
+            try {
+                await session.send(
+                    h.file(Buffer.from(file.content, 'utf-8'), file.mimeType, {
+                        title: `chat-${target}-${Date.now()}.${file.extension}`
+                    })
+                )
+            } catch (err) {
+                ctx.logger.error('发送导出文件时发生错误:', err)
+                return '导出文件发送失败，请检查日志。'
+            }
+
+            return `已导出 ${messages.length} 条消息。`
+        })
+
+    // Last search of each user, so that -p alone pages through it
+    const lastSearches = new Map<
+        string,
+        {
+            keywords: string[]
+            filter: MessageFilter
+            pageSize: number
+            createdAt: number
+        }
+    >()
+
+    settings
+        .subcommand('.search [keywords:text]', '搜索本群的聊天记录')
+        .alias('.搜索')
+        .usage(
+            '按关键词搜索聊天记录，多个关键词以空格分隔，需全部命中。\n' +
+                '例如：/群分析.搜索 周末 聚餐 -u 123456 --from 上周一\n' +
+                '翻页时可以只使用 -p，例如：/群分析.搜索 -p 2'
+        )
+        .option(
+            'user',
+            '-u <userIds:string> 只搜索指定用户的消息，多个用户以逗号分隔'
+        )
+        .option('from', '--from <time:string> 开始时间')
+        .option('to', '--to <time:string> 结束时间')
+        .option('limit', '-n <limit:posint> 每页显示的结果数量', {
+            fallback: 5
+        })
+        .option('page', '-p <page:posint> 页码', { fallback: 1 })
+        .option('format', '-o <format:string> 输出格式 (image/text)')
+        .option('group', '-g <guildId:string> 指定群号', {
+            authority: 3
+        })
+        .option('channel', '-c <channelId:string> 指定频道号', {
+            authority: 3
+        })
+        .action(async ({ session, options }, keywordText) => {
+            if (session.isDirect && !options.group && !options.channel) {
+                return '私聊中请使用 -g 或 -c 指定目标群或频道。'
+            }
+
+            const { guildId, channelId } = resolveTarget(session, options)
+
+            if (!checkGroup(session, { guildId, channelId }))
+                return '目标群未启用分析功能，请使用 群分析.启用 来启用目标群的分析功能。'
+
+            const format = options.format as 'image' | 'text'
+            if (format && !['image', 'text'].includes(format)) {
+                return '输出格式仅支持 image 或 text。'
+            }
+
+            const searchKey = `${session.platform}:${session.channelId}:${session.userId}`
+            const keywords = (keywordText ?? '').split(/\s+/).filter(Boolean)
+
+            let search = lastSearches.get(searchKey)
+            if (keywords.length) {
+                const startTime = parseCommandTime(options.from)
+                const endTime = parseCommandTime(options.to)
+                if (startTime === null || endTime === null) {
+                    return `无法识别时间 ${startTime === null ? options.from : options.to}，请使用如 "昨天18点" 或 "2024-01-01 12:00" 的格式。`
+                }
+                if (startTime && endTime && startTime > endTime) {
+                    return '开始时间不能晚于结束时间。'
+                }
+
+                search = {
+                    keywords,
+                    filter: {
+                        guildId,
+                        channelId,
+                        userId: parseUserIds(options.user),
+                        selfId: session.selfId,
+                        startTime,
+                        endTime,
+                        purpose: 'general'
+                    },
+                    pageSize: Math.min(options.limit, 20),
+                    createdAt: Date.now()
+                }
+                // Expired searches can no longer be paged, drop them here
+                for (const [key, value] of lastSearches) {
+                    if (Date.now() - value.createdAt > SEARCH_SESSION_TIMEOUT) {
+                        lastSearches.delete(key)
+                    }
+                }
+                lastSearches.set(searchKey, search)
+            } else if (
+                !search ||
+                Date.now() - search.createdAt > SEARCH_SESSION_TIMEOUT
+            ) {
+                return '请提供搜索关键词。'
+            }
+
+            const result =
+                await ctx.chatluna_group_analysis_message.searchMessages(
+                    search.filter,
+                    search.keywords,
+                    options.page,
+                    search.pageSize
+                )
+
+            if (!result.total) {
+                return `没有找到包含「${search.keywords.join(' ')}」的消息。`
+            }
+            if (!result.hits.length) {
+                return `共 ${result.total} 条结果，第 ${options.page} 页没有内容。`
+            }
+
+            const text = formatSearchResultText(result)
+            const footer =
+                options.page * search.pageSize < result.total
+                    ? `使用 群分析.搜索 -p ${options.page + 1} 查看下一页。`
+                    : ''
+
+            const useImage =
+                (format ??
+                    (config.outputFormat === 'text' ? 'text' : 'image')) ===
+                    'image' && ctx.chatluna_group_analysis_renderer
+
+            if (useImage) {
+                const image =
+                    await ctx.chatluna_group_analysis_renderer.renderSearchResult(
+                        result,
+                        config
+                    )
+                if (typeof image !== 'string') {
+                    if (footer) await session.send(footer)
+                    return h.image(image, 'image/png')
+                }
+            }
+
+            return footer ? `${text}\n\n${footer}` : text
         })
 
     ctx.command('用户画像 [user:user]', '查看指定用户的画像')
@@ -273,4 +888,89 @@ export function apply(ctx: Context, config: Config) {
                 return '用户画像分析执行失败，请检查日志。'
             }
         })
+
+    const privateChat = ctx
+        .command('私聊分析 [days:posint]', '分析你与机器人的私聊记录')
+        .alias('group-analysis.private')
+        .usage(
+            '本功能会总结你与机器人的私聊记录，包括话题、金句和用户画像。\n' +
+                '需要先在私聊中使用 私聊分析.开启 授权机器人记录私聊消息。\n' +
+                '默认分析最近 7 天的记录，最多不超过消息保留天数。'
+        )
+        .action(async ({ session }, days) => {
+            if (!session.isDirect) return '请在私聊中使用此命令。'
+
+            if (!config.privateChatRecording)
+                return '私聊记录功能未开启，请联系管理员。'
+
+            if (
+                !ctx.chatluna_group_analysis_message.isPrivateChatRecording(
+                    session
+                )
+            )
+                return '你尚未开启私聊记录，请先使用 私聊分析.开启。'
+
+            const analysisDays = Math.min(days ?? 7, config.retentionDays)
+
+            try {
+                await ctx.chatluna_group_analysis.executePrivateChatAnalysis(
+                    session,
+                    analysisDays
+                )
+            } catch (err) {
+                ctx.logger.error('执行私聊分析时发生未捕获的错误:', err)
+                return '私聊分析执行失败，请检查日志。'
+            }
+        })
+
+    privateChat
+        .subcommand('.enable', '允许机器人记录你的私聊消息')
+        .alias('.开启')
+        .action(async ({ session }) => {
+            if (!session.isDirect) return '请在私聊中使用此命令。'
+
+            if (!config.privateChatRecording)
+                return '私聊记录功能未开启，请联系管理员。'
+
+            await ctx.chatluna_group_analysis_message.enablePrivateChatRecording(
+                session
+            )
+
+            return '已开启私聊记录，之后你与我的私聊消息将被保存用于 私聊分析。使用 私聊分析.关闭 可随时关闭并清除记录。'
+        })
+
+    privateChat
+        .subcommand('.disable', '停止记录你的私聊消息并清除已有记录')
+        .alias('.关闭')
+        .action(async ({ session }) => {
+            if (!session.isDirect) return '请在私聊中使用此命令。'
+
+            const removed =
+                await ctx.chatluna_group_analysis_message.disablePrivateChatRecording(
+                    session
+                )
+
+            return `已关闭私聊记录，并清除了 ${removed} 条已保存的私聊消息。`
+        })
+}
+
+const MAX_EXPORT_LIMIT = 10000
+const SEARCH_SESSION_TIMEOUT = 30 * 60 * 1000
+
+/**
+ * Parse a natural-language time such as "昨天18点" or "2024-01-01 12:00".
+ * Returns undefined for empty input and null when it cannot be understood.
+ */
+function parseCommandTime(value?: string): Date | null | undefined {
+    const trimmed = value?.trim()
+    if (!trimmed) return undefined
+    return zh.parseDate(trimmed) ?? parseDate(trimmed) ?? null
+}
+
+function parseUserIds(value?: string): string[] | undefined {
+    const userIds = value
+        ?.split(/[,，\s]+/)
+        .map((id) => id.trim().replace(/^.*:/, ''))
+        .filter(Boolean)
+    return userIds?.length ? userIds : undefined
 }
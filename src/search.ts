@@ -0,0 +1,129 @@
+import { h } from 'koishi'
+import { MessageSearchResult, StoredMessage } from './types'
+import { escapeRegExp } from './utils'
+
+function formatTime(date: Date) {
+    return new Date(date).toLocaleString('zh-CN', { hour12: false })
+}
+
+function getTotalPages(result: MessageSearchResult) {
+    return Math.max(1, Math.ceil(result.total / result.pageSize))
+}
+
+/**
+ * Wrap every keyword occurrence with `open`/`close`. `escape` is applied to
+ * the text between the matches, so HTML output stays safe.
+ */
+export function highlightKeywords(
+    text: string,
+    keywords: string[],
+    open: string,
+    close: string,
+    escape: (text: string) => string = (text) => text
+): string {
+    const patterns = keywords.filter(Boolean).map(escapeRegExp)
+    if (!patterns.length) return escape(text)
+
+    const pattern = new RegExp(`(${patterns.join('|')})`, 'gi')
+    return text
+        .split(pattern)
+        .map((part, index) =>
+            // split() with a capture group puts matches at odd indexes
+            index % 2 === 1 ? open + escape(part) + close : escape(part)
+        )
+        .join('')
+}
+
+export function formatSearchResultText(result: MessageSearchResult): string {
+    const header =
+        `🔍 搜索「${result.keywords.join(' ')}」共 ${result.total} 条结果` +
+        `（第 ${result.page}/${getTotalPages(result)} 页）`
+
+    const formatContext = (message: StoredMessage) =>
+        `    │ ${message.username}: ${message.content.replace(/\s+/g, ' ')}`
+
+    const blocks = result.hits.map((hit, index) => {
+        const number = (result.page - 1) * result.pageSize + index + 1
+        const content = highlightKeywords(
+            hit.message.content.replace(/\s+/g, ' '),
+            result.keywords,
+            '【',
+            '】'
+        )
+
+        return [
+            ...hit.before.map(formatContext),
+            `[${number}] ${formatTime(hit.message.timestamp)} ${hit.message.username}: ${content}`,
+            ...hit.after.map(formatContext)
+        ].join('\n')
+    })
+
+    return [header, ...blocks].join('\n\n')
+}
+
+export function formatSearchResultHtml(
+    result: MessageSearchResult,
+    theme: 'light' | 'dark'
+): string {
+    const escape = (text: string) => h.escape(text).replace(/\n/g, '<br>')
+
+    const renderLine = (message: StoredMessage, matched: boolean) => {
+        const content = matched
+            ? highlightKeywords(
+                  message.content,
+                  result.keywords,
+                  '<mark>',
+                  '</mark>',
+                  escape
+              )
+            : escape(message.content)
+
+        return `<div class="line${matched ? ' matched' : ''}">
+    <span class="name">${h.escape(message.username)}</span>
+    <span class="time">${formatTime(message.timestamp)}</span>
+    <div class="content">${content}</div>
+</div>`
+    }
+
+    const hits = result.hits
+        .map(
+            (hit, index) => `<section class="hit">
+<div class="number">#${(result.page - 1) * result.pageSize + index + 1}</div>
+${hit.before.map((message) => renderLine(message, false)).join('\n')}
+${renderLine(hit.message, true)}
+${hit.after.map((message) => renderLine(message, false)).join('\n')}
+</section>`
+        )
+        .join('\n')
+
+    return `<!DOCTYPE html>
+<html lang="zh-CN" data-theme="${theme}">
+<head>
+<meta charset="UTF-8">
+<style>
+    :root { --bg: #f5f5f7; --card: #fff; --text: #1d1d1f; --muted: #6e6e73; --mark: #ffe58f; }
+    [data-theme="dark"] { --bg: #1c1c1e; --card: #2c2c2e; --text: #f2f2f7; --muted: #a1a1a6; --mark: #8a6d00; }
+    body { margin: 0; background: var(--bg); color: var(--text); font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; }
+    .container { width: 720px; padding: 24px; box-sizing: border-box; background: var(--bg); }
+    h1 { margin: 0 0 4px; font-size: 20px; }
+    .summary { margin: 0 0 16px; color: var(--muted); font-size: 13px; }
+    .hit { position: relative; background: var(--card); border-radius: 12px; padding: 12px 16px 12px 48px; margin-bottom: 12px; }
+    .number { position: absolute; left: 14px; top: 12px; color: var(--muted); font-size: 12px; font-weight: 600; }
+    .line { padding: 4px 0; font-size: 13px; color: var(--muted); }
+    .line.matched { color: var(--text); font-size: 15px; }
+    .name { font-weight: 600; margin-right: 6px; }
+    .time { font-size: 11px; color: var(--muted); }
+    .content { margin-top: 2px; line-height: 1.6; word-break: break-word; }
+    mark { background: var(--mark); color: inherit; border-radius: 3px; padding: 0 2px; }
+</style>
+</head>
+<body>
+<div class="container">
+    <h1>🔍 ${h.escape(result.keywords.join(' '))}</h1>
+    <p class="summary">共 ${result.total} 条结果 · 第 ${result.page}/${getTotalPages(result)} 页</p>
+${hits}
+</div>
+</body>
+</html>
+`
+}
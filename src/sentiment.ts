@@ -0,0 +1,172 @@
+import { h } from 'koishi'
+import { MoodHour, MoodMoment, MoodTimeline, StoredMessage } from './types'
+import { getFaceName } from './onebot/faces'
+import { escapeRegExp } from './utils'
+
+export interface SentimentSample {
+    message: StoredMessage
+    text: string
+    score: number
+}
+
+// Words and chat slang that lean clearly one way
+const POSITIVE_WORDS = (
+    '哈哈 笑死 好耶 开心 快乐 高兴 喜欢 爱了 太好了 好棒 真棒 厉害 牛逼 牛啊 nb 强 绝了 ' +
+    '可爱 舒服 爽 赞 感谢 谢谢 多谢 恭喜 祝贺 好听 好看 好吃 好玩 期待 幸福 温柔 ' +
+    '有趣 666 yyds 太强 稳 赢 支持 加油 欧皇 嘿嘿 嘻嘻 awsl 妙啊 满意 庆祝'
+).split(' ')
+
+const NEGATIVE_WORDS = (
+    '难过 伤心 生气 愤怒 烦 烦死 气死 讨厌 恶心 无语 垃圾 傻逼 sb 滚 崩溃 绝望 ' +
+    '累 好累 痛苦 焦虑 紧张 害怕 担心 失望 后悔 惨 完了 寄 麻了 破防 吵 骂 ' +
+    '服了 离谱 什么鬼 卧槽 该死 难受 哭了 呜呜 裂开 非酋 翻车 吵架 滚蛋 闭嘴'
+).split(' ')
+
+// Negation flips the word right after it, e.g. 不开心, 没意思
+const NEGATIONS = ['不', '没', '别', '无', '不太', '没有']
+
+const byLength = (a: string, b: string) => b.length - a.length
+
+// One alternation, longest word first, so that each position only matches
+// once, e.g. 烦死 is not counted again as 烦
+const MOOD_PATTERN = new RegExp(
+    `(${[...NEGATIONS].sort(byLength).map(escapeRegExp).join('|')})?` +
+        `(${[...POSITIVE_WORDS, ...NEGATIVE_WORDS]
+            .sort(byLength)
+            .map(escapeRegExp)
+            .join('|')})`,
+    'g'
+)
+
+const POSITIVE_WORD_SET = new Set(POSITIVE_WORDS)
+
+// QQ faces that carry an obvious mood, by lowercased display name
+const POSITIVE_FACES = new Set(
+    '微笑 呲牙 偷笑 可爱 憨笑 鼓掌 赞 爱心 玫瑰 胜利 OK 爱你 庆祝 斜眼笑 笑哭 doge 打call 比心 贴贴 耶 666 好棒 点赞'
+        .toLowerCase()
+        .split(' ')
+)
+const NEGATIVE_FACES = new Set(
+    '撇嘴 流泪 大哭 尴尬 发怒 难过 抓狂 吐 衰 心碎 凋谢 委屈 快哭了 可怜 鄙视 生气 裂开 嫌弃 拒绝 无奈 头秃 问号脸'
+        .toLowerCase()
+        .split(' ')
+)
+
+/**
+ * Score a text with the built-in lexicon
+ * @param text Pure text, face names may be appended as `[name]`
+ * @returns Score in [-1, 1], 0 when no mood word is found
+ */
+export function scoreTextByLexicon(text: string): number {
+    const normalized = text.toLowerCase()
+    let positive = 0
+    let negative = 0
+
+    // Face names are scored as faces below, not again as words
+    const words = normalized.replace(/\[[^\]]+\]/g, ' ')
+    for (const [, negation, word] of words.matchAll(MOOD_PATTERN)) {
+        if (POSITIVE_WORD_SET.has(word) !== !!negation) positive++
+        else negative++
+    }
+
+    for (const [, name] of normalized.matchAll(/\[([^\]]+)\]/g)) {
+        if (POSITIVE_FACES.has(name)) positive++
+        else if (NEGATIVE_FACES.has(name)) negative++
+    }
+
+    // Exclamation marks strengthen whatever mood is already there
+    const raw = positive - negative
+    const emphasis = Math.min((normalized.match(/[!！]/g) ?? []).length, 3)
+    const weighted = raw * (1 + emphasis * 0.2)
+    return weighted / (Math.abs(weighted) + 1)
+}
+
+/**
+ * Text of a message used for sentiment scoring, with QQ faces written as
+ * `[name]` so they count as mood words
+ */
+export function getSentimentText(message: StoredMessage): string {
+    const elements = message.elements ?? h.parse(message.content)
+    return elements
+        .map((element) => {
+            if (element.type === 'text') return element.attrs.content ?? ''
+            if (element.type === 'face') {
+                return `[${getFaceName(element.attrs.id ?? '', element.attrs.name)}]`
+            }
+            return ''
+        })
+        .join('')
+        .replace(/\s+/g, ' ')
+        .trim()
+}
+
+/**
+ * Aggregate scored messages into a per-hour mood series
+ * @param samples Scored messages, messages without mood words score 0
+ * @param method How the scores were produced
+ * @param momentCount Number of most positive / negative moments to keep
+ */
+export function buildMoodTimeline(
+    samples: SentimentSample[],
+    method: MoodTimeline['method'],
+    momentCount = 3
+): MoodTimeline {
+    const hours: MoodHour[] = Array.from({ length: 24 }, (_, hour) => ({
+        hour,
+        score: 0,
+        messageCount: 0,
+        positive: 0,
+        negative: 0
+    }))
+
+    let total = 0
+    for (const { message, score } of samples) {
+        const hour = hours[message.timestamp.getHours()]
+        hour.messageCount++
+        hour.score += score
+        if (score > 0) hour.positive++
+        else if (score < 0) hour.negative++
+        total += score
+    }
+
+    for (const hour of hours) {
+        if (hour.messageCount) {
+            hour.score = Number((hour.score / hour.messageCount).toFixed(3))
+        }
+    }
+
+    const toMoment = ({
+        message,
+        text,
+        score
+    }: SentimentSample): MoodMoment => ({
+        userId: String(message.userId),
+        nickname: message.username,
+        content: text.length > 80 ? text.slice(0, 80) + '…' : text,
+        timestamp: message.timestamp,
+        score: Number(score.toFixed(3))
+    })
+    // Very short or face-only messages make poor moments even when they
+    // score high
+    const candidates = samples.filter(
+        (sample) => sample.text.replace(/\[[^\]]*\]/g, '').trim().length >= 4
+    )
+
+    return {
+        method,
+        overall: samples.length
+            ? Number((total / samples.length).toFixed(3))
+            : 0,
+        hours,
+        positive: candidates
+            .filter((sample) => sample.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, momentCount)
+            .map(toMoment),
+        negative: candidates
+            .filter((sample) => sample.score < 0)
+            .sort((a, b) => a.score - b.score)
+            .slice(0, momentCount)
+            .map(toMoment)
+    }
+}
@@ -1,34 +1,78 @@
-import { Context, h, Service, Session } from 'koishi'
+import { Context, h, Query, Random, Service, Session } from 'koishi'
 import { dump as yamlDump, load as yamlLoad } from 'js-yaml'
 import {
     AnalysisPromptContext,
     GoldenQuote,
     GroupAnalysisResult,
+    GroupOverview,
+    GroupOverviewEntry,
+    GroupReportRecord,
+    GroupTopicRecord,
+    GroupTrend,
+    MessageFilter,
+    MoodTimeline,
     PersonaCache,
     PersonaRecord,
     QueryAction,
     QueryIntent,
+    RetrievedMessageWindow,
+    SharedLink,
     StoredMessage,
     SummaryTopic,
+    TopicThread,
     UserPersonaProfile,
-    UserTitle
+    UserStats,
+    UserTitle,
+    WordFrequency
 } from '../types'
-import { Config } from '..'
+import { Config, ReportSchedule } from '..'
 import {
+    buildEmojiLeaderboard,
     buildGroupAnalysisCacheKey,
+    buildGroupOverviewEntry,
+    buildGroupTrend,
+    buildInteractionGraph,
     buildPersonaRecordId,
     calculateBasicStats,
+    formatActivePeriod,
     formatMessagesForPersona,
     formatPersonaForPrompt,
+    formatRetrievedWindowsForPrompt,
     generateActiveHoursChart,
+    generateOverviewTextReport,
     generateTextReport,
     getAvatarUrl,
+    getContentLeaders,
+    getOverallActiveHours,
+    getPreviousWindow,
     getStartTimeByDays,
     isCacheExpiredByDays,
     isCacheExpiredByMinutes,
     mergePersona,
+    resolveGroupConfig,
     shouldListenToMessage
 } from '../utils'
+import { buildWordFrequency, createTokenizer } from '../tokenizer'
+import { buildLinkContexts, selectSharedLinks } from '../links'
+import {
+    buildMoodTimeline,
+    getSentimentText,
+    scoreTextByLexicon,
+    SentimentSample
+} from '../sentiment'
+import {
+    attachTopicSessions,
+    formatSessionsForPrompt,
+    repeatSessionHeaders,
+    segmentConversations
+} from '../sessions'
+import {
+    buildTopicThreads,
+    getCalendarDayDiff,
+    getTopicEmbeddingText,
+    matchTopicsByVector
+} from '../topics'
+import { decodeVector, encodeVector } from '../vector-store'
 import type { GuildMember } from '@satorijs/protocol'
 import type { OneBotBot } from 'koishi-plugin-adapter-onebot'
 
@@ -42,12 +86,43 @@ type GroupAnalysisCacheEntry = {
     analyzedAt: Date
 }
 
+type AnalysisWindow = {
+    start: Date
+    end: Date
+}
+
+type OutputFormat = 'image' | 'pdf' | 'text'
+
+// Messages read per group for the overview's per-user figures, busy groups
+// are marked as sampled beyond it
+const OVERVIEW_MESSAGE_LIMIT = 10000
+
+// Earlier threads shown to the model when linking topics
+const MAX_TOPIC_CANDIDATES = 30
+
+// Topic history columns except the vectors, which threads do not need
+const TOPIC_THREAD_FIELDS = [
+    'id',
+    'platform',
+    'selfId',
+    'guildId',
+    'channelId',
+    'threadId',
+    'topic',
+    'detail',
+    'contributors',
+    'startTime',
+    'endTime',
+    'createdAt'
+] as const
+
 export class AnalysisService extends Service {
-    static readonly inject = [
-        'chatluna_group_analysis_llm',
-        'chatluna_group_analysis_message',
-        'chatluna_group_analysis_renderer'
-    ]
+    static readonly inject = {
+        chatluna_group_analysis_llm: { required: true },
+        chatluna_group_analysis_message: { required: true },
+        chatluna_group_analysis_renderer: { required: true },
+        chatluna_group_analysis_embedding: { required: false }
+    }
 
     private personaCache = new Map<string, PersonaCache>()
     private personaProcessing = new Set<string>()
@@ -59,6 +134,8 @@ export class AnalysisService extends Service {
     ) {
         super(ctx, 'chatluna_group_analysis', true)
         this.setupPersonaDatabase()
+        this.setupReportDatabase()
+        this.setupTopicDatabase()
         this.setupPersonaMessageListener()
     }
 
@@ -87,6 +164,58 @@ export class AnalysisService extends Service {
         )
     }
 
+    private setupReportDatabase() {
+        this.ctx.database.extend(
+            'chatluna_group_reports',
+            {
+                id: 'unsigned',
+                platform: { type: 'char', length: 30 },
+                selfId: { type: 'char', length: 100 },
+                guildId: { type: 'char', length: 100, nullable: true },
+                channelId: { type: 'char', length: 100, nullable: true },
+                groupName: { type: 'char', length: 254 },
+                startTime: 'timestamp',
+                endTime: 'timestamp',
+                model: { type: 'char', length: 100 },
+                skin: { type: 'char', length: 30 },
+                query: { type: 'text', nullable: true },
+                totalMessages: 'unsigned',
+                result: 'text',
+                createdAt: 'timestamp'
+            },
+            {
+                primary: 'id',
+                autoInc: true
+            }
+        )
+    }
+
+    private setupTopicDatabase() {
+        this.ctx.database.extend(
+            'chatluna_group_topics',
+            {
+                id: 'unsigned',
+                platform: { type: 'char', length: 30 },
+                selfId: { type: 'char', length: 100 },
+                guildId: { type: 'char', length: 100, nullable: true },
+                channelId: { type: 'char', length: 100, nullable: true },
+                threadId: { type: 'char', length: 32 },
+                topic: { type: 'char', length: 254 },
+                detail: 'text',
+                contributors: 'json',
+                vector: { type: 'text', nullable: true },
+                vectorModel: { type: 'char', length: 100, nullable: true },
+                startTime: 'timestamp',
+                endTime: 'timestamp',
+                createdAt: 'timestamp'
+            },
+            {
+                primary: 'id',
+                autoInc: true
+            }
+        )
+    }
+
     private setupPersonaMessageListener() {
         if (this.config.personaAnalysisMessageInterval === 0) {
             this.ctx.logger.info('已关闭自动用户画像分析。')
@@ -268,7 +397,8 @@ export class AnalysisService extends Service {
                 record.username,
                 record.roles,
                 promptMessages,
-                previousText
+                previousText,
+                this.getUserTopWords(historyMessages, record.userId)
             )
 
         if (!persona) {
@@ -412,50 +542,12 @@ export class AnalysisService extends Service {
         await this.ctx.database.upsert('chatluna_user_personas', [record])
     }
 
-    private async _getGroupHistoryFromMessageService(
-        selfId: string,
-        target: AnalysisTarget,
-        days: number
-    ): Promise<StoredMessage[]> {
-        const targetId = target.guildId || target.channelId
-        if (!targetId) {
-            this.ctx.logger.warn('执行群分析时缺少有效的群组或频道标识。')
-            return []
-        }
-
-        this.ctx.logger.info(
-            `开始从消息服务获取群组 ${targetId} 近 ${days} 天的消息记录...`
-        )
-
-        const startTime = getStartTimeByDays(
-            days,
-            this.config.useCalendarDayWindow
-        )
-
-        const endTime = new Date()
-
-        const messages =
-            await this.ctx.chatluna_group_analysis_message.getHistoricalMessages(
-                {
-                    guildId: target.guildId,
-                    channelId: target.channelId,
-                    startTime,
-                    selfId,
-                    endTime,
-                    limit: this.config.maxMessages,
-                    purpose: 'group-analysis'
-                }
-            )
-
-        this.ctx.logger.info(`从消息服务获取到 ${messages.length} 条消息。`)
-        return messages
-    }
-
     private async _getGroupHistoryFromMessageServiceByTimeRange(
         selfId: string,
         target: AnalysisTarget,
         startTime: Date,
-        endTime: Date
+        endTime: Date,
+        limit = this.config.maxMessages
     ): Promise<StoredMessage[]> {
         const targetId = target.guildId || target.channelId
         if (!targetId) {
@@ -475,7 +567,7 @@ export class AnalysisService extends Service {
                     startTime,
                     selfId,
                     endTime,
-                    limit: this.config.maxMessages,
+                    limit,
                     purpose: 'group-analysis'
                 }
             )
@@ -562,8 +654,9 @@ export class AnalysisService extends Service {
         selfId: string,
         target: AnalysisTarget,
         days: number,
-        outputFormat?: 'image' | 'pdf' | 'text',
-        force?: boolean
+        outputFormat?: OutputFormat,
+        force?: boolean,
+        skin?: string
     ) {
         const bot = this._getBot(selfId)
         const targetChannel = target.channelId ?? target.guildId
@@ -578,6 +671,10 @@ export class AnalysisService extends Service {
         const sendStatus = async (content: string | h) =>
             bot?.sendMessage(targetChannel, content, targetGuildContext)
 
+        // A schedule's skin wins over the group's own one
+        const groupConfig = resolveGroupConfig(this.config, selfId, target)
+        const config = skin ? { ...groupConfig, skin } : groupConfig
+
         let message: h
 
         try {
@@ -596,11 +693,21 @@ export class AnalysisService extends Service {
             } else {
                 await sendStatus(`开始分析群聊近 ${days} 天的活动，请稍候...`)
 
-                const messages = await this._getGroupHistoryFromMessageService(
-                    selfId,
-                    target,
-                    days
-                )
+                const window: AnalysisWindow = {
+                    start: getStartTimeByDays(
+                        days,
+                        this.config.useCalendarDayWindow
+                    ),
+                    end: new Date()
+                }
+
+                const messages =
+                    await this._getGroupHistoryFromMessageServiceByTimeRange(
+                        selfId,
+                        target,
+                        window.start,
+                        window.end
+                    )
 
                 if (messages.length < this.config.minMessages) {
                     await sendStatus(
@@ -616,45 +723,48 @@ export class AnalysisService extends Service {
                 analysisResult = await this.analyzeGroupMessages(
                     messages,
                     selfId,
-                    target
+                    target,
+                    undefined,
+                    {
+                        window,
+                        previousWindow: {
+                            start: getStartTimeByDays(
+                                days * 2,
+                                this.config.useCalendarDayWindow
+                            ),
+                            end: window.start
+                        }
+                    }
+                )
+
+                await this.trackTopicContinuity(
+                    selfId,
+                    target,
+                    window,
+                    analysisResult.topics
                 )
 
                 this.groupAnalysisCache.set(cacheKey, {
                     result: analysisResult,
                     analyzedAt: new Date()
                 })
-            }
-
-            const format = outputFormat || this.config.outputFormat || 'image'
 
-            switch (format) {
-                case 'image':
-                    {
-                        const image =
-                            await this.ctx.chatluna_group_analysis_renderer.renderGroupAnalysis(
-                                analysisResult,
-                                this.config
-                            )
-                        message =
-                            typeof image === 'string'
-                                ? h.text(image)
-                                : h.image(image, 'image/png')
-                    }
-                    break
-                case 'pdf': {
-                    const pdfBuffer =
-                        await this.ctx.chatluna_group_analysis_renderer.renderGroupAnalysisToPdf(
-                            analysisResult
-                        )
-                    message = pdfBuffer
-                        ? h.file(pdfBuffer, 'application/pdf')
-                        : h.text('PDF 渲染失败，请检查日志。')
-                    break
-                }
-                default: {
-                    message = h.text(generateTextReport(analysisResult))
-                }
+                await this.saveGroupReport(
+                    selfId,
+                    target,
+                    window,
+                    analysisResult,
+                    undefined,
+                    config.skin
+                )
             }
+
+            message = await this.renderAnalysisResult(
+                analysisResult,
+                outputFormat,
+                bot?.platform,
+                config
+            )
         } catch (error) {
             this.ctx.logger.error(
                 `为群组 ${target.guildId || target.channelId} 执行分析任务时发生错误:`,
@@ -675,7 +785,7 @@ export class AnalysisService extends Service {
         session: Session,
         target: AnalysisTarget,
         query: string,
-        outputFormat?: 'image' | 'pdf' | 'text'
+        outputFormat?: OutputFormat
     ) {
         const bot = this._getBot(session.selfId)
         const targetChannel = target.channelId ?? target.guildId
@@ -735,7 +845,52 @@ export class AnalysisService extends Service {
                 timeRange.end
             )
 
+        // Without an explicit time the whole index is searched, so facts
+        // outside the default window can still be found
+        const hasExplicitTime = !!(
+            intent.targetTime?.startTime || intent.targetTime?.endTime
+        )
+        const relevantWindows = await this.retrieveRelevantWindows(
+            session,
+            target,
+            query,
+            hasExplicitTime ? timeRange : undefined
+        )
+        const relevantMessages =
+            formatRetrievedWindowsForPrompt(relevantWindows)
+
+        const reply = async (analysisResult: string) => {
+            const content =
+                await this.ctx.chatluna_group_analysis_llm.replyGroupQuery({
+                    query,
+                    analysisResult,
+                    relevantMessages,
+                    currentTime: currentTime.toLocaleString('zh-CN', {
+                        hour12: false
+                    }),
+                    groupName,
+                    guildId: target.guildId,
+                    channelId: target.channelId,
+                    currentUserId: session.userId,
+                    currentUserName: session.username || session.userId
+                })
+
+            if (content?.length) {
+                await sendStatus(content)
+            } else {
+                await sendStatus('对话生成失败，请稍后再试。')
+            }
+        }
+
         if (messages.length < this.config.minMessages) {
+            if (relevantWindows.length && action !== '只分析') {
+                this.ctx.logger.info(
+                    `时间范围内消息不足，使用语义检索到的 ${relevantWindows.length} 个片段回答。`
+                )
+                await reply('（所选时间范围内消息不足，未生成分析报告）')
+                return
+            }
+
             await sendStatus(
                 `消息数量（${messages.length}/${this.config.minMessages}）不足于进行有效分析。`
             )
@@ -774,75 +929,93 @@ export class AnalysisService extends Service {
             messages,
             session.selfId,
             target,
-            analysisContext
+            analysisContext,
+            { window: timeRange, previousWindow: getPreviousWindow(timeRange) }
+        )
+
+        const config = resolveGroupConfig(this.config, session.selfId, target)
+        await this.saveGroupReport(
+            session.selfId,
+            target,
+            timeRange,
+            analysisResult,
+            query,
+            config.skin
         )
 
         const textReport = generateTextReport(analysisResult)
-        const format = outputFormat || this.config.outputFormat || 'image'
 
         if (action !== '只对话') {
-            let reportMessage: h
-            switch (format) {
-                case 'image':
-                    {
-                        const image =
-                            await this.ctx.chatluna_group_analysis_renderer.renderGroupAnalysis(
-                                analysisResult,
-                                this.config
-                            )
-                        reportMessage =
-                            typeof image === 'string'
-                                ? h.text(image)
-                                : h.image(image, 'image/png')
-                    }
-                    break
-                case 'pdf': {
-                    const pdfBuffer =
-                        await this.ctx.chatluna_group_analysis_renderer.renderGroupAnalysisToPdf(
-                            analysisResult
-                        )
-                    reportMessage = pdfBuffer
-                        ? h.file(pdfBuffer, 'application/pdf')
-                        : h.text('PDF 渲染失败，请检查日志。')
-                    break
-                }
-                default: {
-                    reportMessage = h.text(textReport)
-                }
-            }
-
-            await sendStatus(reportMessage)
+            await sendStatus(
+                await this.renderAnalysisResult(
+                    analysisResult,
+                    outputFormat,
+                    session.platform,
+                    config
+                )
+            )
         }
 
         if (action !== '只分析') {
-            const reply =
-                await this.ctx.chatluna_group_analysis_llm.replyGroupQuery({
-                    query,
-                    analysisResult: textReport,
-                    currentTime: currentTime.toLocaleString('zh-CN', {
-                        hour12: false
-                    }),
-                    groupName,
-                    guildId: target.guildId,
-                    channelId: target.channelId,
-                    currentUserId: session.userId,
-                    currentUserName: session.username || session.userId
-                })
+            await reply(textReport)
+        }
+    }
 
-            if (reply?.length) {
-                await sendStatus(reply)
-            } else {
-                await sendStatus('对话生成失败，请稍后再试。')
-            }
+    private async retrieveRelevantWindows(
+        session: Session,
+        target: AnalysisTarget,
+        query: string,
+        timeRange?: AnalysisWindow
+    ): Promise<RetrievedMessageWindow[]> {
+        const embedding = this.ctx.chatluna_group_analysis_embedding
+        if (!embedding?.isEnabled()) return []
+
+        try {
+            const windows = await embedding.retrieve(
+                {
+                    platform: session.platform,
+                    selfId: session.selfId,
+                    guildId: target.guildId,
+                    channelId: target.channelId
+                },
+                query,
+                timeRange
+                    ? { startTime: timeRange.start, endTime: timeRange.end }
+                    : {}
+            )
+            this.ctx.logger.info(
+                `语义检索到 ${windows.length} 个相关消息片段。`
+            )
+            return windows
+        } catch (error) {
+            this.ctx.logger.warn('语义检索相关消息失败:', error)
+            return []
         }
     }
 
-    public async executeAutoAnalysisForEnabledGroups() {
+    /**
+     * @param schedule Report schedule that fired, decides the target groups,
+     * window length, output format and skin
+     */
+    public async executeAutoAnalysisForEnabledGroups(
+        schedule?: ReportSchedule
+    ) {
+        const targetGroups = schedule?.groups ?? []
         const enabledGroups = this.config.listenerGroups.filter(
-            (group) => group.enabled
+            (group) =>
+                group.enabled &&
+                (targetGroups.length === 0 ||
+                    targetGroups.includes(group.channelId) ||
+                    (group.guildId && targetGroups.includes(group.guildId)))
         )
         const maxConcurrentAnalyses = 3
 
+        if (schedule) {
+            this.ctx.logger.info(
+                `定时任务 ${schedule.name} 开始为 ${enabledGroups.length} 个群生成近 ${schedule.days} 天的报告。`
+            )
+        }
+
         for (
             let index = 0;
             index < enabledGroups.length;
@@ -862,7 +1035,10 @@ export class AnalysisService extends Service {
                                 guildId: group.guildId,
                                 channelId: group.channelId
                             },
-                            this.config.cronAnalysisDays
+                            schedule?.days || this.config.cronAnalysisDays,
+                            schedule?.outputFormat,
+                            false,
+                            schedule?.skin
                         )
                     } catch (err) {
                         this.ctx.logger.error(
@@ -875,6 +1051,557 @@ export class AnalysisService extends Service {
         }
     }
 
+    /**
+     * Basic statistics of every enabled listener group, without LLM calls
+     * @param days Window length, growth compares with the previous window of
+     * the same length
+     */
+    public async buildGroupOverview(days: number): Promise<GroupOverview> {
+        const window: AnalysisWindow = {
+            start: getStartTimeByDays(days, this.config.useCalendarDayWindow),
+            end: new Date()
+        }
+        const previousWindow = getPreviousWindow(window)
+        const groups = this.config.listenerGroups.filter(
+            (group) => group.enabled
+        )
+        const entries: GroupOverviewEntry[] = []
+        const participants = new Set<string>()
+
+        this.ctx.logger.info(`开始统计 ${groups.length} 个群的总览数据。`)
+
+        // One group at a time, the windows may hold many messages
+        for (const group of groups) {
+            const target = {
+                guildId: group.guildId,
+                channelId: group.channelId
+            }
+            const filter: MessageFilter = {
+                ...target,
+                selfId: group.selfId,
+                purpose: 'group-analysis'
+            }
+            try {
+                const messageService = this.ctx.chatluna_group_analysis_message
+                const totalMessages =
+                    await messageService.countHistoricalMessages({
+                        ...filter,
+                        startTime: window.start,
+                        endTime: window.end
+                    })
+
+                let messages: StoredMessage[]
+                let previousMessages: number
+                if (totalMessages !== undefined) {
+                    // Counted in the database, only the per-user figures
+                    // need the messages themselves
+                    messages = await messageService.getStoredMessages({
+                        ...filter,
+                        startTime: window.start,
+                        endTime: window.end,
+                        offset: Math.max(
+                            0,
+                            totalMessages - OVERVIEW_MESSAGE_LIMIT
+                        ),
+                        limit: OVERVIEW_MESSAGE_LIMIT
+                    })
+                    previousMessages =
+                        await messageService.countHistoricalMessages({
+                            ...filter,
+                            startTime: previousWindow.start,
+                            endTime: previousWindow.end
+                        })
+                } else {
+                    messages =
+                        await this._getGroupHistoryFromMessageServiceByTimeRange(
+                            group.selfId,
+                            target,
+                            window.start,
+                            window.end,
+                            OVERVIEW_MESSAGE_LIMIT
+                        )
+                    previousMessages = (
+                        await this._getGroupHistoryFromMessageServiceByTimeRange(
+                            group.selfId,
+                            target,
+                            previousWindow.start,
+                            previousWindow.end,
+                            OVERVIEW_MESSAGE_LIMIT
+                        )
+                    ).length
+                }
+
+                for (const message of messages) {
+                    participants.add(`${group.platform}:${message.userId}`)
+                }
+
+                entries.push(
+                    buildGroupOverviewEntry(
+                        {
+                            platform: group.platform,
+                            selfId: group.selfId,
+                            guildId: group.guildId,
+                            channelId: group.channelId,
+                            groupName: await this.resolveGroupName(
+                                group.selfId,
+                                target
+                            )
+                        },
+                        messages,
+                        totalMessages ?? messages.length,
+                        previousMessages,
+                        totalMessages === undefined &&
+                            messages.length >= OVERVIEW_MESSAGE_LIMIT
+                    )
+                )
+            } catch (error) {
+                this.ctx.logger.warn(
+                    `统计群 ${group.guildId || group.channelId} 的总览数据失败:`,
+                    error
+                )
+            }
+        }
+
+        return {
+            analysisDate: new Date().toLocaleDateString('zh-CN'),
+            days,
+            totalMessages: entries.reduce(
+                (sum, entry) => sum + entry.totalMessages,
+                0
+            ),
+            totalParticipants: participants.size,
+            groups: entries
+        }
+    }
+
+    public async renderOverviewResult(
+        overview: GroupOverview,
+        outputFormat?: OutputFormat
+    ): Promise<h> {
+        const format = outputFormat || this.config.outputFormat || 'image'
+
+        // A leaderboard has no PDF layout, it goes out as an image instead
+        if (format === 'text') {
+            return h.text(
+                generateOverviewTextReport(
+                    overview,
+                    this.config.overviewMaxGroups
+                )
+            )
+        }
+
+        const image =
+            await this.ctx.chatluna_group_analysis_renderer.renderGroupOverview(
+                overview,
+                this.config
+            )
+        return typeof image === 'string'
+            ? h.text(image)
+            : h.image(image, 'image/png')
+    }
+
+    /**
+     * Send the overview to the channels in overviewTargets, run by the
+     * overviewSchedule job
+     */
+    public async executeScheduledOverview() {
+        const targets = this.config.overviewTargets ?? []
+        if (!targets.length) {
+            this.ctx.logger.warn('定时总览未配置 overviewTargets，已跳过。')
+            return
+        }
+
+        try {
+            const overview = await this.buildGroupOverview(
+                this.config.overviewDays
+            )
+            const message = await this.renderOverviewResult(overview)
+            await this.ctx.broadcast(targets, message)
+        } catch (error) {
+            this.ctx.logger.error('发送定时总览时发生错误:', error)
+        }
+    }
+
+    public async listGroupReports(
+        selfId: string,
+        target: AnalysisTarget,
+        limit = 10
+    ): Promise<Omit<GroupReportRecord, 'result'>[]> {
+        const query: Query<GroupReportRecord> = { selfId }
+        if (target.guildId) query.guildId = target.guildId
+        else if (target.channelId) query.channelId = target.channelId
+
+        return await this.ctx.database
+            .select('chatluna_group_reports')
+            .where(query)
+            .orderBy('createdAt', 'desc')
+            .limit(limit)
+            .execute([
+                'id',
+                'platform',
+                'selfId',
+                'guildId',
+                'channelId',
+                'groupName',
+                'startTime',
+                'endTime',
+                'model',
+                'skin',
+                'query',
+                'totalMessages',
+                'createdAt'
+            ])
+    }
+
+    public async getGroupReport(
+        id: number
+    ): Promise<{ record: GroupReportRecord; result: GroupAnalysisResult }> {
+        const record = await this.ctx.database
+            .select('chatluna_group_reports')
+            .where({ id })
+            .execute()
+            .then((records) => records[0])
+
+        if (!record) return null
+
+        try {
+            const result = JSON.parse(record.result) as GroupAnalysisResult
+            for (const user of result.userStats ?? []) {
+                user.lastActive = new Date(user.lastActive)
+            }
+            if (result.mostActiveUser) {
+                result.mostActiveUser.lastActive = new Date(
+                    result.mostActiveUser.lastActive
+                )
+            }
+            for (const moment of [
+                ...(result.moodTimeline?.positive ?? []),
+                ...(result.moodTimeline?.negative ?? [])
+            ]) {
+                moment.timestamp = new Date(moment.timestamp)
+            }
+            for (const topic of result.topics ?? []) {
+                if (topic.startTime) topic.startTime = new Date(topic.startTime)
+                if (topic.endTime) topic.endTime = new Date(topic.endTime)
+                if (topic.continuity) {
+                    topic.continuity.firstSeenAt = new Date(
+                        topic.continuity.firstSeenAt
+                    )
+                }
+            }
+            return { record, result }
+        } catch (error) {
+            this.ctx.logger.warn(`解析历史群分析报告失败 (#${id}):`, error)
+            return null
+        }
+    }
+
+    private async saveGroupReport(
+        selfId: string,
+        target: AnalysisTarget,
+        window: AnalysisWindow,
+        result: GroupAnalysisResult,
+        query?: string,
+        skin?: string
+    ) {
+        try {
+            await this.ctx.database.create('chatluna_group_reports', {
+                platform: this._getBot(selfId)?.platform ?? 'unknown',
+                selfId,
+                guildId: target.guildId,
+                channelId: target.channelId,
+                groupName: result.groupName,
+                startTime: window.start,
+                endTime: window.end,
+                model: this.config.model,
+                skin: skin || this.config.skin || 'md3',
+                query,
+                totalMessages: result.totalMessages,
+                result: JSON.stringify(result),
+                createdAt: new Date()
+            })
+        } catch (error) {
+            this.ctx.logger.warn('保存群分析报告失败:', error)
+        }
+    }
+
+    private _getTopicQuery(
+        selfId: string,
+        target: AnalysisTarget
+    ): Query.Expr<GroupTopicRecord> {
+        const query: Query.Expr<GroupTopicRecord> = { selfId }
+        if (target.guildId) query.guildId = target.guildId
+        else if (target.channelId) query.channelId = target.channelId
+        return query
+    }
+
+    /**
+     * Link the topics of a report to the topics of earlier reports and store
+     * them, marking each continued topic with its thread
+     * @param topics Topics of the report, marked in place
+     */
+    private async trackTopicContinuity(
+        selfId: string,
+        target: AnalysisTarget,
+        window: AnalysisWindow,
+        topics: SummaryTopic[]
+    ) {
+        const method = this.config.topicContinuity
+        if (!method || method === 'off' || !topics?.length) return
+
+        try {
+            const lookback = new Date(
+                window.start.getTime() -
+                    this.config.topicContinuityDays * 24 * 60 * 60 * 1000
+            )
+            // Only reports that ended before this window, overlapping ones
+            // would match their own topics
+            const previous = await this.ctx.database.get(
+                'chatluna_group_topics',
+                {
+                    ...this._getTopicQuery(selfId, target),
+                    endTime: { $gte: lookback, $lte: window.start }
+                }
+            )
+
+            let vectors: number[][] | undefined
+            if (method === 'embedding') {
+                vectors = await this.ctx.chatluna_group_analysis_embedding
+                    ?.embedTexts(topics.map(getTopicEmbeddingText))
+                    .catch((error) => {
+                        this.ctx.logger.warn('话题嵌入失败:', error)
+                        return undefined
+                    })
+                if (!vectors) {
+                    this.ctx.logger.warn(
+                        '无法使用嵌入模型匹配延续话题，将改用小模型判断。'
+                    )
+                }
+            }
+
+            // A failed match only loses the links, the topics are still
+            // stored so that later reports can continue them
+            let matches: (string | undefined)[] = topics.map(() => undefined)
+            try {
+                if (previous.length && vectors) {
+                    const candidates = previous
+                        .filter(
+                            (record) =>
+                                record.vector &&
+                                record.vectorModel === this.config.embeddings
+                        )
+                        .map((record) => ({
+                            threadId: record.threadId,
+                            vector: decodeVector(record.vector)
+                        }))
+                    if (candidates.length) {
+                        matches = matchTopicsByVector(
+                            vectors,
+                            candidates,
+                            this.config.topicContinuityThreshold
+                        )
+                    } else {
+                        this.ctx.logger.info(
+                            '往期话题没有当前嵌入模型的向量，本次话题均记为新话题。'
+                        )
+                    }
+                } else if (previous.length) {
+                    const candidates = buildTopicThreads(previous)
+                        .slice(0, MAX_TOPIC_CANDIDATES)
+                        .map(
+                            (thread) =>
+                                thread.entries[thread.entries.length - 1]
+                        )
+                    const indexes =
+                        await this.ctx.chatluna_group_analysis_llm.matchContinuedTopics(
+                            candidates,
+                            topics
+                        )
+                    matches = indexes.map((index) =>
+                        index === undefined
+                            ? undefined
+                            : candidates[index].threadId
+                    )
+                }
+            } catch (error) {
+                this.ctx.logger.warn(
+                    '匹配延续话题失败，本次话题均记为新话题:',
+                    error
+                )
+            }
+
+            // The lookback only limits matching, the label counts the whole
+            // thread
+            const matchedIds = matches.filter(Boolean)
+            const threads = matchedIds.length
+                ? buildTopicThreads(
+                      await this.ctx.database.get(
+                          'chatluna_group_topics',
+                          {
+                              ...this._getTopicQuery(selfId, target),
+                              threadId: { $in: matchedIds }
+                          },
+                          [...TOPIC_THREAD_FIELDS]
+                      )
+                  )
+                : []
+
+            const platform = this._getBot(selfId)?.platform ?? 'unknown'
+            for (const [index, topic] of topics.entries()) {
+                const thread = threads.find(
+                    (thread) => thread.threadId === matches[index]
+                )
+                if (thread) {
+                    const sameDay =
+                        getCalendarDayDiff(thread.lastSeenAt, window.end) === 0
+                    topic.continuity = {
+                        threadId: thread.threadId,
+                        firstSeenAt: thread.firstSeenAt,
+                        days: Math.max(
+                            1,
+                            getCalendarDayDiff(thread.firstSeenAt, window.end)
+                        ),
+                        occurrences: thread.entries.length + (sameDay ? 0 : 1)
+                    }
+                }
+
+                await this.ctx.database.create('chatluna_group_topics', {
+                    platform,
+                    selfId,
+                    guildId: target.guildId,
+                    channelId: target.channelId,
+                    threadId: thread?.threadId ?? Random.id(),
+                    topic: topic.topic.slice(0, 254),
+                    detail: topic.detail ?? '',
+                    contributors: topic.contributors ?? [],
+                    vector: vectors?.[index]
+                        ? encodeVector(vectors[index])
+                        : undefined,
+                    vectorModel: vectors?.[index]
+                        ? this.config.embeddings
+                        : undefined,
+                    startTime: window.start,
+                    endTime: window.end,
+                    createdAt: new Date()
+                })
+            }
+
+            const continued = topics.filter((topic) => topic.continuity)
+            if (continued.length) {
+                this.ctx.logger.info(
+                    `本次共 ${continued.length} 个话题延续自往期报告。`
+                )
+            }
+        } catch (error) {
+            // The report is still complete without continuity marks
+            this.ctx.logger.warn('追踪话题延续失败:', error)
+        }
+    }
+
+    private async getTopicThreads(
+        selfId: string,
+        target: AnalysisTarget
+    ): Promise<TopicThread[]> {
+        const records = await this.ctx.database.get(
+            'chatluna_group_topics',
+            this._getTopicQuery(selfId, target),
+            [...TOPIC_THREAD_FIELDS]
+        )
+        return buildTopicThreads(records)
+    }
+
+    /**
+     * Topic threads of a group that came up on more than one day
+     * @returns Threads, most recently seen first
+     */
+    public async listTopicThreads(
+        selfId: string,
+        target: AnalysisTarget,
+        limit = 10
+    ): Promise<TopicThread[]> {
+        return (await this.getTopicThreads(selfId, target))
+            .filter((thread) => thread.entries.length > 1)
+            .slice(0, limit)
+    }
+
+    /**
+     * Most recently seen thread that has a topic containing the keyword
+     */
+    public async findTopicThread(
+        selfId: string,
+        target: AnalysisTarget,
+        keyword: string
+    ): Promise<TopicThread | undefined> {
+        const normalized = keyword.trim().toLowerCase()
+        return (await this.getTopicThreads(selfId, target)).find((thread) =>
+            thread.entries.some((entry) =>
+                entry.topic.toLowerCase().includes(normalized)
+            )
+        )
+    }
+
+    /**
+     * @param platform Platform of the receiving bot, decides whether paged
+     * images may be bundled into a forward message
+     * @param config Effective settings of the group, see resolveGroupConfig
+     */
+    public async renderAnalysisResult(
+        result: GroupAnalysisResult,
+        outputFormat?: OutputFormat,
+        platform?: string,
+        config: Config = this.config
+    ): Promise<h> {
+        const format = outputFormat || config.outputFormat || 'image'
+
+        switch (format) {
+            case 'image': {
+                if (config.imagePagination) {
+                    const pages =
+                        await this.ctx.chatluna_group_analysis_renderer.renderGroupAnalysisPages(
+                            result,
+                            config
+                        )
+                    return typeof pages === 'string'
+                        ? h.text(pages)
+                        : this.buildPagedImageMessage(pages, platform)
+                }
+
+                const image =
+                    await this.ctx.chatluna_group_analysis_renderer.renderGroupAnalysis(
+                        result,
+                        config
+                    )
+                return typeof image === 'string'
+                    ? h.text(image)
+                    : h.image(image, 'image/png')
+            }
+            case 'pdf': {
+                const pdfBuffer =
+                    await this.ctx.chatluna_group_analysis_renderer.renderGroupAnalysisToPdf(
+                        result,
+                        config
+                    )
+                return pdfBuffer
+                    ? h.file(pdfBuffer, 'application/pdf')
+                    : h.text('PDF 渲染失败，请检查日志。')
+            }
+            default:
+                return h.text(generateTextReport(result))
+        }
+    }
+
+    private buildPagedImageMessage(pages: Buffer[], platform?: string): h {
+        const images = pages.map((page) => h.image(page, 'image/png'))
+        if (images.length === 1) return images[0]
+
+        const messages = images.map((image) => h('message', {}, image))
+        if (this.config.imagePageForward && platform === 'onebot') {
+            return h('message', { forward: true }, messages)
+        }
+        // Every <message> child is sent on its own, in order
+        return h(h.Fragment, messages)
+    }
+
     public async getUserPersona(
         platform: string,
         selfId: string,
@@ -1043,37 +1770,253 @@ export class AnalysisService extends Service {
         await session.send(message)
     }
 
+    public async executePrivateChatAnalysis(
+        session: Session,
+        days: number,
+        outputFormat?: OutputFormat
+    ) {
+        await session.send(`开始分析你与我近 ${days} 天的私聊记录，请稍候...`)
+
+        let message: h
+
+        try {
+            const messages =
+                await this.ctx.chatluna_group_analysis_message.getPrivateChatMessages(
+                    session,
+                    getStartTimeByDays(days, this.config.useCalendarDayWindow),
+                    new Date(),
+                    this.config.maxMessages
+                )
+
+            if (messages.length < this.config.minMessages) {
+                await session.send(
+                    `私聊消息数量（${messages.length}/${this.config.minMessages}）不足于进行有效分析。`
+                )
+                return
+            }
+
+            const username = session.username || session.userId
+            const analysisResult = await this.analyzePrivateMessages(
+                messages,
+                username
+            )
+
+            await session.send(
+                await this.renderAnalysisResult(
+                    analysisResult,
+                    outputFormat,
+                    session.platform
+                )
+            )
+
+            const userMessages = messages.filter(
+                (msg) => msg.userId === session.userId
+            )
+            if (userMessages.length < this.config.personaMinMessages) return
+
+            const cache = await this.ensurePersonaCache(
+                buildPersonaRecordId(
+                    session.platform,
+                    session.selfId,
+                    session.userId
+                ),
+                {
+                    platform: session.platform,
+                    selfId: session.selfId,
+                    userId: session.userId,
+                    username
+                }
+            )
+
+            // The private persona is only shown to the user and never merged
+            // into the persona record that group members can look up
+            const persona =
+                await this.ctx.chatluna_group_analysis_llm.analyzeUserPersona(
+                    session.userId,
+                    username,
+                    cache.record.roles,
+                    formatMessagesForPersona(userMessages),
+                    formatPersonaForPrompt(cache.parsedPersona),
+                    this.getUserTopWords(userMessages, session.userId)
+                )
+
+            if (!persona) return
+
+            persona.analysisDate = new Date().toLocaleString()
+
+            const image =
+                await this.ctx.chatluna_group_analysis_renderer.renderUserPersona(
+                    persona,
+                    username,
+                    session.platform === 'onebot'
+                        ? getAvatarUrl(session.userId)
+                        : session.event.user?.avatar,
+                    this.config
+                )
+
+            message =
+                typeof image === 'string'
+                    ? h.text(image)
+                    : h.image(image, 'image/png')
+        } catch (error) {
+            this.ctx.logger.error(
+                `为用户 ${session.userId} 执行私聊分析时发生错误:`,
+                error
+            )
+            const errorMessage =
+                error instanceof Error ? error.message : '未知错误。'
+
+            message = h.text(
+                `分析失败: ${errorMessage}。请检查服务状态或联系管理员。`
+            )
+        }
+
+        await session.send(message)
+    }
+
+    private async analyzePrivateMessages(
+        messages: StoredMessage[],
+        username: string
+    ): Promise<GroupAnalysisResult> {
+        this.ctx.logger.info(`开始分析 ${messages.length} 条私聊消息...`)
+
+        const {
+            userStats,
+            totalChars,
+            totalEmojiCount,
+            allMessagesText,
+            messageTexts,
+            contentMix,
+            sharedLinks
+        } = calculateBasicStats(messages)
+
+        const chunks =
+            await this.ctx.chatluna_group_analysis_llm.splitMessagesIntoChunks(
+                allMessagesText.map((line) => [line])
+            )
+
+        const sharedLinksTask = this.buildSharedLinks(sharedLinks, messages)
+        const moodTimelineTask = this.buildMoodTimeline(messages)
+        const [topics, goldenQuotes] = await Promise.all([
+            this.ctx.chatluna_group_analysis_llm.summarizeTopicsInChunks(
+                chunks
+            ),
+            this.ctx.chatluna_group_analysis_llm.analyzeGoldenQuotesInChunks(
+                chunks,
+                this.config.maxGoldenQuotes
+            )
+        ]).catch((error) => {
+            this.ctx.logger.error('LLM analysis failed:', error)
+            return [[] as SummaryTopic[], [] as GoldenQuote[]] as const
+        })
+
+        const users = Object.values(userStats).sort(
+            (a, b) => b.messageCount - a.messageCount
+        )
+        const overallActiveHours = getOverallActiveHours(users)
+
+        return {
+            totalMessages: messages.length,
+            totalChars,
+            totalParticipants: users.length,
+            emojiCount: totalEmojiCount,
+            mostActiveUser: users[0] || null,
+            mostActivePeriod: formatActivePeriod(overallActiveHours),
+            userStats: users,
+            topics,
+            userTitles: [],
+            goldenQuotes,
+            activeHoursChart: generateActiveHoursChart(overallActiveHours),
+            activeHoursData: overallActiveHours,
+            analysisDate: new Date().toLocaleDateString('zh-CN'),
+            groupName: `与 ${username} 的私聊`,
+            wordFrequency: this.buildWordFrequency(messageTexts),
+            contentMix,
+            contentLeaders: getContentLeaders(users),
+            emojiLeaderboard: buildEmojiLeaderboard(messages, userStats),
+            sharedLinks: await sharedLinksTask,
+            moodTimeline: await moodTimelineTask
+        }
+    }
+
     public async analyzeGroupMessages(
         messages: StoredMessage[],
         selfId: string,
         target: AnalysisTarget,
-        context?: AnalysisPromptContext
+        context?: AnalysisPromptContext,
+        trendWindows?: {
+            window: AnalysisWindow
+            previousWindow: AnalysisWindow
+        }
     ): Promise<GroupAnalysisResult> {
         this.ctx.logger.info(`开始分析 ${messages.length} 条消息...`)
+        const config = resolveGroupConfig(this.config, selfId, target)
 
-        const { userStats, totalChars, totalEmojiCount, allMessagesText } =
-            calculateBasicStats(messages)
+        const {
+            userStats,
+            totalChars,
+            totalEmojiCount,
+            allMessagesText,
+            messageTexts,
+            contentMix,
+            sharedLinks
+        } = calculateBasicStats(messages)
+
+        // Computed before the LLM calls so the title prompt sees top words
+        const wordFrequency = this.buildWordFrequency(messageTexts)
+        for (const [userId, words] of Object.entries(
+            wordFrequency?.userTopWords ?? {}
+        )) {
+            if (userStats[userId]) userStats[userId].topWords = words
+        }
 
-        const messagesText = allMessagesText.join('\n')
+        // Untangle interleaved conversations before the model sees them
+        const sessions = config.sessionSegmentation
+            ? segmentConversations(messages, config.sessionGapMinutes)
+            : undefined
+        if (sessions) {
+            this.ctx.logger.info(`消息已切分为 ${sessions.length} 段会话。`)
+        }
+
+        // Split into token-budgeted chunks so large windows fit the context.
+        // Topics are extracted per chunk, so whole sessions are packed into
+        // them and only a session too long for one chunk is split.
+        const chunks = repeatSessionHeaders(
+            await this.ctx.chatluna_group_analysis_llm.splitMessagesIntoChunks(
+                sessions
+                    ? formatSessionsForPrompt(sessions)
+                    : allMessagesText.map((line) => [line]),
+                config
+            )
+        )
 
         // LLM analyses in parallel
         const users = Object.values(userStats)
+        const sharedLinksTask = this.buildSharedLinks(
+            sharedLinks,
+            messages,
+            context
+        )
+        const moodTimelineTask = this.buildMoodTimeline(messages)
 
         const [topics, userTitles, goldenQuotes] = await Promise.all([
-            this.ctx.chatluna_group_analysis_llm.summarizeTopics(
-                messagesText,
-                context
+            this.ctx.chatluna_group_analysis_llm.summarizeTopicsInChunks(
+                chunks,
+                context,
+                config
             ),
             this.config.userTitleAnalysis
                 ? this.ctx.chatluna_group_analysis_llm.analyzeUserTitles(
                       users,
-                      context
+                      context,
+                      config
                   )
                 : Promise.resolve([]),
-            this.ctx.chatluna_group_analysis_llm.analyzeGoldenQuotes(
-                messagesText,
-                this.config.maxGoldenQuotes,
-                context
+            this.ctx.chatluna_group_analysis_llm.analyzeGoldenQuotesInChunks(
+                chunks,
+                config.maxGoldenQuotes,
+                context,
+                config
             )
         ]).catch((error) => {
             this.ctx.logger.error('LLM analysis failed:', error)
@@ -1086,55 +2029,213 @@ export class AnalysisService extends Service {
         })
 
         // Final statistics
+        const sessionTopics = sessions
+            ? attachTopicSessions(topics, sessions)
+            : topics
         const sortedUsers = users.sort(
             (a, b) => b.messageCount - a.messageCount
         )
-        const overallActiveHours = users.reduce(
-            (acc, user) => {
-                for (const hour in user.activeHours) {
-                    acc[hour] = (acc[hour] || 0) + user.activeHours[hour]
-                }
-                return acc
-            },
-            {} as Record<number, number>
-        )
-        const mostActiveHourEntry = Object.entries(overallActiveHours).sort(
-            (a, b) => b[1] - a[1]
-        )[0]
-        const mostActiveHour = mostActiveHourEntry
-            ? mostActiveHourEntry[0]
-            : 'N/A'
-
+        const overallActiveHours = getOverallActiveHours(users)
         // Generate chart using the renderer service
         const activeHoursChartHtml =
             generateActiveHoursChart(overallActiveHours)
 
         const groupName = await this.resolveGroupName(selfId, target)
 
+        const trend = trendWindows
+            ? await this.buildTrend(
+                  selfId,
+                  target,
+                  messages.length,
+                  userStats,
+                  trendWindows
+              )
+            : undefined
+
         const result: GroupAnalysisResult = {
             totalMessages: messages.length,
             totalChars,
             totalParticipants: users.length,
             emojiCount: totalEmojiCount,
             mostActiveUser: sortedUsers[0] || null,
-            mostActivePeriod:
-                mostActiveHour !== 'N/A'
-                    ? `${mostActiveHour.padStart(2, '0')}:00 - ${String(parseInt(mostActiveHour) + 1).padStart(2, '0')}:00`
-                    : 'N/A',
+            mostActivePeriod: formatActivePeriod(overallActiveHours),
             userStats: sortedUsers.slice(0, this.config.maxUsersInReport),
-            topics,
+            topics: sessionTopics,
             userTitles,
             goldenQuotes,
             activeHoursChart: activeHoursChartHtml,
             activeHoursData: overallActiveHours,
             analysisDate: new Date().toLocaleDateString('zh-CN'),
-            groupName
+            groupName,
+            trend,
+            interactionGraph: buildInteractionGraph(messages, userStats),
+            wordFrequency,
+            contentMix,
+            contentLeaders: getContentLeaders(users),
+            emojiLeaderboard: buildEmojiLeaderboard(messages, userStats),
+            sharedLinks: await sharedLinksTask,
+            moodTimeline: await moodTimelineTask
         }
 
         this.ctx.logger.info('消息分析完成。')
         return result
     }
 
+    private buildWordFrequency(
+        messageTexts: { userId: string; text: string }[]
+    ): WordFrequency | undefined {
+        if (!this.config.wordCloud) return undefined
+
+        try {
+            const tokenizer = createTokenizer({
+                stopWords: this.config.wordStopWords,
+                dictionary: this.config.wordDictionary
+            })
+            return buildWordFrequency(
+                messageTexts,
+                tokenizer,
+                this.config.wordCloudMaxWords
+            )
+        } catch (error) {
+            this.ctx.logger.warn('统计词频失败:', error)
+            return undefined
+        }
+    }
+
+    private async buildSharedLinks(
+        links: SharedLink[],
+        messages: StoredMessage[],
+        context?: AnalysisPromptContext
+    ): Promise<SharedLink[] | undefined> {
+        if (!this.config.sharedLinks) return undefined
+
+        const selected = selectSharedLinks(links, this.config.maxSharedLinks)
+        if (!selected.length) return selected
+
+        const notes = await this.ctx.chatluna_group_analysis_llm
+            .annotateSharedLinks(
+                selected,
+                buildLinkContexts(selected, messages),
+                context
+            )
+            .catch((error) => {
+                // The links are still worth listing without notes
+                this.ctx.logger.warn('整理分享链接失败:', error)
+                return [] as string[]
+            })
+
+        return selected.map((link, index) => ({
+            ...link,
+            note: notes[index] || undefined
+        }))
+    }
+
+    private async buildMoodTimeline(
+        messages: StoredMessage[]
+    ): Promise<MoodTimeline | undefined> {
+        const method = this.config.sentimentAnalysis
+        if (!method || method === 'off') return undefined
+
+        const samples: SentimentSample[] = messages
+            .map((message) => ({
+                message,
+                text: getSentimentText(message),
+                score: 0
+            }))
+            .filter((sample) => sample.text)
+        if (!samples.length) return undefined
+
+        const scores =
+            method === 'model'
+                ? await this.ctx.chatluna_group_analysis_llm.scoreSentiment(
+                      samples.map((sample) => sample.text)
+                  )
+                : []
+
+        let scoredByModel = false
+        for (const [index, sample] of samples.entries()) {
+            // Messages the model skipped fall back to the lexicon
+            scoredByModel ||= scores[index] !== undefined
+            sample.score = scores[index] ?? scoreTextByLexicon(sample.text)
+        }
+
+        return buildMoodTimeline(samples, scoredByModel ? 'model' : 'lexicon')
+    }
+
+    private getUserTopWords(messages: StoredMessage[], userId: string) {
+        const { messageTexts } = calculateBasicStats(messages)
+        return this.buildWordFrequency(messageTexts)?.userTopWords[userId]
+    }
+
+    /**
+     * @param messageCount Number of messages the current statistics are
+     * based on, at most maxMessages
+     */
+    private async buildTrend(
+        selfId: string,
+        target: AnalysisTarget,
+        messageCount: number,
+        userStats: Record<string, UserStats>,
+        {
+            window,
+            previousWindow
+        }: {
+            window: AnalysisWindow
+            previousWindow: AnalysisWindow
+        }
+    ): Promise<GroupTrend | undefined> {
+        if (!this.config.trendComparison) return undefined
+
+        try {
+            const previousMessages =
+                await this._getGroupHistoryFromMessageServiceByTimeRange(
+                    selfId,
+                    target,
+                    previousWindow.start,
+                    previousWindow.end
+                )
+
+            this.ctx.logger.info(
+                `环比对比已获取上一周期 ${previousMessages.length} 条消息。`
+            )
+
+            // Both windows are read up to maxMessages, so busy groups are
+            // compared by their full counts in the database
+            const messageService = this.ctx.chatluna_group_analysis_message
+            const filter: MessageFilter = {
+                ...target,
+                selfId,
+                purpose: 'group-analysis'
+            }
+            const [current, previous] = await Promise.all([
+                messageService.countHistoricalMessagesByUser({
+                    ...filter,
+                    startTime: window.start,
+                    endTime: window.end
+                }),
+                messageService.countHistoricalMessagesByUser({
+                    ...filter,
+                    startTime: previousWindow.start,
+                    endTime: previousWindow.end
+                })
+            ])
+            const sampled =
+                messageCount >= this.config.maxMessages ||
+                previousMessages.length >= this.config.maxMessages
+
+            return buildGroupTrend(
+                userStats,
+                calculateBasicStats(previousMessages).userStats,
+                previousWindow,
+                current && previous ? { current, previous } : undefined,
+                sampled ? this.config.maxMessages : undefined
+            )
+        } catch (error) {
+            this.ctx.logger.warn('计算环比变化失败:', error)
+            return undefined
+        }
+    }
+
     private _getBot(selfId: string) {
         return this.ctx.bots.find((bot) => bot.selfId === selfId)
     }
@@ -1147,5 +2248,7 @@ declare module 'koishi' {
 
     interface Tables {
         chatluna_user_personas: PersonaRecord
+        chatluna_group_reports: GroupReportRecord
+        chatluna_group_topics: GroupTopicRecord
     }
 }
@@ -0,0 +1,407 @@
+import { Bot, Context, Service, Universal } from 'koishi'
+import type { OneBotBot } from 'koishi-plugin-adapter-onebot'
+import { Config } from '../config'
+import { HistoryBackfillJob, OneBotMessage, StoredMessage } from '../types'
+import {
+    fromOneBotMessage,
+    fromUniversalMessage,
+    getGroupRetentionDays,
+    isNapCatBot,
+    shouldListenToMessage
+} from '../utils'
+
+interface BackfillPage {
+    messages: StoredMessage[]
+    cursor?: string
+}
+
+export class BackfillService extends Service {
+    static readonly inject = ['database', 'chatluna_group_analysis_message']
+
+    private queue: Promise<void> = Promise.resolve()
+    private queuedJobs = new Set<string>()
+    private disposed = false
+    private readonly pageIntervalMs = 1000
+
+    constructor(
+        ctx: Context,
+        public config: Config
+    ) {
+        super(ctx, 'chatluna_group_analysis_backfill', true)
+        this.setupDatabase()
+        this.setupResume()
+    }
+
+    private setupDatabase() {
+        this.ctx.database.extend(
+            'chatluna_history_backfill',
+            {
+                id: 'string',
+                platform: 'string',
+                selfId: 'string',
+                guildId: { type: 'string', nullable: true },
+                channelId: 'string',
+                status: 'string',
+                cursor: { type: 'string', nullable: true },
+                oldestTimestamp: { type: 'timestamp', nullable: true },
+                fetched: { type: 'unsigned', initial: 0 },
+                rounds: { type: 'unsigned', initial: 0 },
+                error: { type: 'text', nullable: true },
+                createdAt: 'timestamp',
+                updatedAt: 'timestamp'
+            },
+            { primary: 'id' }
+        )
+    }
+
+    private setupResume() {
+        this.ctx.on('dispose', () => {
+            this.disposed = true
+        })
+
+        // Jobs interrupted by a restart (including the reload triggered by
+        // 群分析.启用 itself) are picked up again once the bot is online
+        this.ctx.on('ready', async () => {
+            await this.resumeUnfinishedJobs()
+        })
+
+        this.ctx.on('bot-status-updated', async (bot) => {
+            if (bot.status !== Universal.Status.ONLINE) return
+            await this.resumeUnfinishedJobs(bot)
+        })
+    }
+
+    private buildJobId(target: {
+        platform: string
+        selfId: string
+        guildId?: string
+        channelId?: string
+    }) {
+        return `${target.platform}_${target.selfId}_${target.guildId || target.channelId}`
+    }
+
+    private async resumeUnfinishedJobs(bot?: Bot) {
+        if (!this.isEnabled()) return
+
+        const jobs = await this.ctx.database
+            .get('chatluna_history_backfill', {
+                $or: [{ status: 'pending' }, { status: 'running' }],
+                ...(bot ? { platform: bot.platform, selfId: bot.selfId } : {})
+            })
+            .catch((error) => {
+                this.ctx.logger.warn('Failed to load backfill jobs:', error)
+                return [] as HistoryBackfillJob[]
+            })
+
+        for (const job of jobs) {
+            this.enqueue(job)
+        }
+    }
+
+    private isEnabled() {
+        return this.config.historyBackfill && this.config.alwaysPersistMessages
+    }
+
+    /**
+     * Create a backfill job for the target group and run it in the
+     * background. An unfinished job of the same group is resumed instead.
+     */
+    public async startBackfill(target: {
+        platform: string
+        selfId: string
+        guildId?: string
+        channelId: string
+    }): Promise<HistoryBackfillJob | null> {
+        if (!this.isEnabled()) return null
+
+        const existing = await this.getBackfillJob(target)
+        if (existing?.status === 'pending' || existing?.status === 'running') {
+            this.enqueue(existing)
+            return existing
+        }
+
+        const now = new Date()
+        const job: HistoryBackfillJob = {
+            id: this.buildJobId(target),
+            platform: target.platform,
+            selfId: target.selfId,
+            guildId: target.guildId,
+            channelId: target.channelId,
+            status: 'pending',
+            cursor: null,
+            oldestTimestamp: null,
+            fetched: 0,
+            rounds: 0,
+            error: null,
+            createdAt: now,
+            updatedAt: now
+        }
+
+        await this.ctx.database.upsert('chatluna_history_backfill', [job])
+        this.enqueue(job)
+        return job
+    }
+
+    public async getBackfillJob(target: {
+        platform: string
+        selfId: string
+        guildId?: string
+        channelId?: string
+    }): Promise<HistoryBackfillJob | undefined> {
+        const [job] = await this.ctx.database.get('chatluna_history_backfill', {
+            id: this.buildJobId(target)
+        })
+        return job
+    }
+
+    private enqueue(job: HistoryBackfillJob) {
+        if (this.queuedJobs.has(job.id)) return
+        this.queuedJobs.add(job.id)
+
+        // Jobs run one after another to keep the history API load low
+        this.queue = this.queue
+            .then(() => this.runJob(job))
+            .catch((error) =>
+                this.ctx.logger.warn(`历史消息回填任务 ${job.id} 异常:`, error)
+            )
+            .finally(() => this.queuedJobs.delete(job.id))
+    }
+
+    private getRetentionCutoff(job: HistoryBackfillJob) {
+        const days = getGroupRetentionDays(this.config, job)
+        return Date.now() - days * 24 * 60 * 60 * 1000
+    }
+
+    private async saveJob(job: HistoryBackfillJob) {
+        job.updatedAt = new Date()
+        await this.ctx.database.upsert('chatluna_history_backfill', [job])
+    }
+
+    private async runJob(job: HistoryBackfillJob) {
+        if (this.disposed) return
+
+        const listening = shouldListenToMessage(
+            {
+                guildId: job.guildId,
+                channelId: job.channelId,
+                platform: job.platform,
+                selfId: job.selfId
+            },
+            this.config.listenerGroups,
+            this.config.enableAllGroupsByDefault
+        )
+        if (!listening) {
+            // The group was disabled before the job could finish
+            await this.ctx.database.remove('chatluna_history_backfill', {
+                id: job.id
+            })
+            return
+        }
+
+        const bot = this.ctx.bots.find(
+            (b) => b.platform === job.platform && b.selfId === job.selfId
+        )
+        if (!bot || bot.status !== Universal.Status.ONLINE) {
+            // Stay pending, bot-status-updated will resume it
+            this.ctx.logger.info(
+                `机器人 ${job.selfId} 暂未在线，群 ${job.guildId || job.channelId} 的历史消息回填将在上线后继续。`
+            )
+            return
+        }
+
+        if (job.platform !== 'onebot' && !bot.getMessageList) {
+            job.status = 'failed'
+            job.error = '当前平台不支持获取历史消息'
+            await this.saveJob(job)
+            return
+        }
+
+        const logger = this.ctx.logger
+        const targetId = job.guildId || job.channelId
+        const cutoff = this.getRetentionCutoff(job)
+
+        job.status = 'running'
+        await this.saveJob(job)
+        logger.info(
+            `开始回填群 ${targetId} 的历史消息，目标时间: ${new Date(cutoff).toLocaleString()}`
+        )
+
+        try {
+            const { isRunningNapCat } =
+                job.platform === 'onebot'
+                    ? await isNapCatBot(bot as OneBotBot<Context>)
+                    : { isRunningNapCat: false }
+
+            while (!this.disposed) {
+                const page =
+                    job.platform === 'onebot'
+                        ? await this.fetchOneBotPage(
+                              bot as OneBotBot<Context>,
+                              job,
+                              isRunningNapCat
+                          )
+                        : await this.fetchBotAPIPage(bot, job)
+
+                const sameCursor = page.cursor === job.cursor
+                const inRange = page.messages.filter(
+                    (message) => message.timestamp.getTime() >= cutoff
+                )
+
+                if (inRange.length) {
+                    const { imported } =
+                        await this.ctx.chatluna_group_analysis_message.importMessages(
+                            inRange
+                        )
+                    job.fetched += imported
+                }
+
+                const oldest = page.messages.reduce<Date | undefined>(
+                    (min, message) =>
+                        !min || message.timestamp < min
+                            ? message.timestamp
+                            : min,
+                    undefined
+                )
+
+                job.rounds += 1
+                job.cursor = page.cursor
+                if (oldest) job.oldestTimestamp = oldest
+
+                const finished =
+                    !page.messages.length ||
+                    !page.cursor ||
+                    sameCursor ||
+                    (oldest && oldest.getTime() < cutoff)
+
+                if (finished) {
+                    job.status = 'completed'
+                    await this.saveJob(job)
+                    break
+                }
+
+                await this.saveJob(job)
+
+                if (job.rounds % 10 === 0) {
+                    logger.info(
+                        `群 ${targetId} 历史消息回填进度: 第 ${job.rounds} 轮，已写入 ${job.fetched} 条，最早至 ${job.oldestTimestamp?.toLocaleString()}`
+                    )
+                }
+
+                await this.ctx.sleep(this.pageIntervalMs)
+            }
+        } catch (error) {
+            // Disposal interrupts the sleep, the job resumes after reload
+            if (this.disposed) return
+
+            logger.error(`回填群 ${targetId} 的历史消息失败:`, error)
+            job.status = 'failed'
+            job.error = error instanceof Error ? error.message : String(error)
+            await this.saveJob(job)
+            return
+        }
+
+        if (job.status !== 'completed') return
+
+        logger.info(
+            `群 ${targetId} 历史消息回填完成，共 ${job.rounds} 轮，写入 ${job.fetched} 条消息。`
+        )
+
+        await bot
+            .sendMessage(
+                job.channelId,
+                `历史消息回填完成，共写入 ${job.fetched} 条消息` +
+                    (job.oldestTimestamp
+                        ? `，最早至 ${job.oldestTimestamp.toLocaleString('zh-CN', { hour12: false })}。`
+                        : '。'),
+                job.guildId
+            )
+            .catch((error) =>
+                logger.warn('Failed to send backfill notification:', error)
+            )
+    }
+
+    private async fetchOneBotPage(
+        bot: OneBotBot<Context>,
+        job: HistoryBackfillJob,
+        isRunningNapCat: boolean
+    ): Promise<BackfillPage> {
+        const targetId = job.guildId || job.channelId
+
+        // cursor: "<message_seq>:<message_id>" of the oldest fetched message
+        const [messageSeq, messageId] = job.cursor
+            ? job.cursor.split(':').map(Number)
+            : []
+
+        const requestPackage = {
+            group_id: Number(targetId),
+            message_seq: messageSeq,
+            // message id: /lagrange
+            message_id: messageId,
+            count: isRunningNapCat ? 50 : 30,
+            reverseOrder: typeof messageSeq === 'number'
+        }
+
+        if (!isRunningNapCat) delete requestPackage.reverseOrder
+
+        if (messageSeq === undefined) {
+            delete requestPackage.message_id
+            delete requestPackage.message_seq
+        }
+
+        const result = await bot.internal
+            ._request('get_group_msg_history', requestPackage)
+            .then((result) => result.data as { messages: OneBotMessage[] })
+
+        const batch = result?.messages ?? []
+        const oldest = batch[0]
+
+        return {
+            messages: batch.map((message) =>
+                fromOneBotMessage(message, {
+                    selfId: bot.selfId,
+                    channelId: targetId,
+                    guildId: job.guildId
+                })
+            ),
+            cursor: oldest
+                ? `${oldest.message_seq}:${oldest.message_id}`
+                : undefined
+        }
+    }
+
+    private async fetchBotAPIPage(
+        bot: Bot,
+        job: HistoryBackfillJob
+    ): Promise<BackfillPage> {
+        const targetId = job.channelId || job.guildId
+        const messageList = await bot.getMessageList(
+            targetId,
+            job.cursor ?? undefined,
+            'before'
+        )
+
+        const messages = (messageList?.data ?? []).map((message) =>
+            fromUniversalMessage(message, {
+                platform: bot.platform,
+                selfId: bot.selfId,
+                channelId: targetId,
+                guildId: job.guildId
+            })
+        )
+
+        return {
+            messages,
+            cursor: messageList?.prev || messages[0]?.messageId
+        }
+    }
+}
+
+declare module 'koishi' {
+    interface Context {
+        chatluna_group_analysis_backfill: BackfillService
+    }
+
+    interface Tables {
+        chatluna_history_backfill: HistoryBackfillJob
+    }
+}
@@ -0,0 +1,331 @@
+import { Context, h, Service } from 'koishi'
+import type { Embeddings } from '@langchain/core/embeddings'
+import type { ComputedRef } from 'koishi-plugin-chatluna'
+import path from 'path'
+import { Config } from '../config'
+import {
+    EmbeddingWindow,
+    RetrievedMessageWindow,
+    StoredMessage
+} from '../types'
+import { getGroupRetentionDays } from '../utils'
+import { LocalVectorStore } from '../vector-store'
+
+interface EmbeddingTarget {
+    platform: string
+    selfId: string
+    guildId?: string
+    channelId?: string
+}
+
+export class EmbeddingService extends Service {
+    static readonly inject = ['chatluna', 'chatluna_group_analysis_message']
+
+    private stores = new Map<
+        string,
+        { store: LocalVectorStore; target: EmbeddingTarget }
+    >()
+
+    private updating = new Map<string, Promise<void>>()
+    private embeddingsRef?: ComputedRef<Embeddings | undefined>
+    private readonly storeDir: string
+    private readonly windowGapMs = 30 * 60 * 1000
+    private readonly maxWindowsPerUpdate = 200
+    private readonly embedBatchSize = 16
+    private readonly maxMessageChars = 200
+
+    constructor(
+        ctx: Context,
+        public config: Config
+    ) {
+        super(ctx, 'chatluna_group_analysis_embedding', true)
+
+        this.storeDir = path.resolve(
+            ctx.baseDir,
+            'data/chatluna/group_analysis/embeddings'
+        )
+
+        // Keep the indexes of groups queried since startup up to date, so
+        // later questions do not wait for a large batch of embeddings
+        this.ctx.setInterval(
+            async () => {
+                for (const { target } of this.stores.values()) {
+                    await this.updateIndex(target)
+                }
+            },
+            10 * 60 * 1000
+        )
+    }
+
+    public isEnabled() {
+        return (
+            this.config.embeddingIndex &&
+            this.config.alwaysPersistMessages &&
+            !!this.config.embeddings &&
+            this.config.embeddings !== '无'
+        )
+    }
+
+    private async getEmbeddings() {
+        if (!this.embeddingsRef) {
+            this.embeddingsRef = await this.ctx.chatluna.createEmbeddings(
+                this.config.embeddings
+            )
+        }
+
+        const embeddings = this.embeddingsRef.value
+        if (!embeddings) {
+            this.ctx.logger.warn(
+                `未找到 ChatLuna 嵌入模型 ${this.config.embeddings}，请检查配置。`
+            )
+        }
+        return embeddings
+    }
+
+    /**
+     * Embed short texts with the configured model. Unlike the message index
+     * this does not need embeddingIndex to be turned on.
+     * @returns undefined when no embedding model is available
+     */
+    public async embedTexts(texts: string[]): Promise<number[][] | undefined> {
+        if (!this.config.embeddings || this.config.embeddings === '无') {
+            return undefined
+        }
+
+        const embeddings = await this.getEmbeddings()
+        if (!embeddings) return undefined
+
+        return embeddings.embedDocuments(texts)
+    }
+
+    private buildStoreKey(target: EmbeddingTarget) {
+        return `${target.platform}_${target.selfId}_${target.guildId || target.channelId}`
+    }
+
+    private async getStore(target: EmbeddingTarget) {
+        const key = this.buildStoreKey(target)
+        const existing = this.stores.get(key)
+        if (existing) return existing.store
+
+        const fileName = key.replace(/[^\w.-]/g, '_') + '.json'
+        const store = new LocalVectorStore(
+            path.resolve(this.storeDir, fileName)
+        )
+        await store.load()
+
+        // Vectors of different models are not comparable
+        if (store.model !== this.config.embeddings) {
+            store.clear(this.config.embeddings)
+        }
+
+        this.stores.set(key, { store, target })
+        return store
+    }
+
+    private getRetentionCutoff(target: EmbeddingTarget) {
+        const days = getGroupRetentionDays(this.config, target)
+        return new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+    }
+
+    /**
+     * Embed stored messages that are newer than the last indexed window.
+     * Concurrent calls for the same group share one update.
+     */
+    public async updateIndex(target: EmbeddingTarget): Promise<void> {
+        if (!this.isEnabled()) return
+
+        const key = this.buildStoreKey(target)
+        const running = this.updating.get(key)
+        if (running) return running
+
+        const task = this.runUpdate(target)
+            .catch((error) =>
+                this.ctx.logger.warn(`更新群 ${key} 的向量索引失败:`, error)
+            )
+            .finally(() => this.updating.delete(key))
+
+        this.updating.set(key, task)
+        return task
+    }
+
+    private async runUpdate(target: EmbeddingTarget) {
+        const embeddings = await this.getEmbeddings()
+        if (!embeddings) return
+
+        const store = await this.getStore(target)
+        const cutoff = this.getRetentionCutoff(target)
+        const removed = store.removeBefore(cutoff)
+
+        const since =
+            store.indexedUntil && store.indexedUntil > cutoff
+                ? store.indexedUntil
+                : cutoff
+        const limit = this.config.embeddingWindowSize * this.maxWindowsPerUpdate
+
+        const fetched =
+            await this.ctx.chatluna_group_analysis_message.getStoredMessages({
+                guildId: target.guildId,
+                channelId: target.channelId,
+                selfId: target.selfId,
+                startTime: since,
+                limit,
+                purpose: 'group-analysis'
+            })
+
+        const messages = fetched.filter(
+            (message) =>
+                (!store.indexedUntil ||
+                    message.timestamp > store.indexedUntil) &&
+                this.formatMessage(message)
+        )
+
+        const windows = this.buildWindows(messages)
+        const last = windows[windows.length - 1]
+        if (
+            last &&
+            (fetched.length >= limit ||
+                (last.length < this.config.embeddingWindowSize &&
+                    Date.now() - last[last.length - 1].timestamp.getTime() <
+                        this.windowGapMs))
+        ) {
+            // The conversation may still be going on, or the page cut it off
+            windows.pop()
+        }
+
+        if (!windows.length) {
+            if (removed) await store.save()
+            return
+        }
+
+        this.ctx.logger.info(
+            `正在为群 ${target.guildId || target.channelId} 建立向量索引，共 ${windows.length} 个消息片段...`
+        )
+
+        try {
+            for (
+                let index = 0;
+                index < windows.length;
+                index += this.embedBatchSize
+            ) {
+                const batch = windows.slice(index, index + this.embedBatchSize)
+                const vectors = await embeddings.embedDocuments(
+                    batch.map((window) => this.formatWindow(window))
+                )
+
+                store.add(
+                    batch.map((window, i): EmbeddingWindow => ({
+                        id: window[0].id,
+                        start: window[0].timestamp,
+                        end: window[window.length - 1].timestamp,
+                        messageIds: window.map((message) => message.id),
+                        vector: vectors[i]
+                    }))
+                )
+                const lastWindow = batch[batch.length - 1]
+                store.indexedUntil = lastWindow[lastWindow.length - 1].timestamp
+            }
+        } finally {
+            // Keep the windows embedded before a failure
+            await store.save()
+        }
+    }
+
+    private buildWindows(messages: StoredMessage[]) {
+        const windows: StoredMessage[][] = []
+        let current: StoredMessage[] = []
+
+        for (const message of messages) {
+            const previous = current[current.length - 1]
+            if (
+                current.length >= this.config.embeddingWindowSize ||
+                (previous &&
+                    message.timestamp.getTime() - previous.timestamp.getTime() >
+                        this.windowGapMs)
+            ) {
+                windows.push(current)
+                current = []
+            }
+            current.push(message)
+        }
+
+        if (current.length) windows.push(current)
+        return windows.slice(0, this.maxWindowsPerUpdate)
+    }
+
+    private formatMessage(message: StoredMessage) {
+        const text = (
+            message.elements?.length
+                ? h
+                      .select(message.elements, 'text')
+                      .map((element) => element.attrs.content)
+                      .join('')
+                : message.content
+        )
+            .replace(/\s+/g, ' ')
+            .trim()
+
+        return text.length > this.maxMessageChars
+            ? text.slice(0, this.maxMessageChars) + '…'
+            : text
+    }
+
+    private formatWindow(window: StoredMessage[]) {
+        return window
+            .map(
+                (message) =>
+                    `${message.username}: ${this.formatMessage(message)}`
+            )
+            .join('\n')
+    }
+
+    /**
+     * Find the message windows most similar to the question. The index is
+     * brought up to date first.
+     * @param range Only windows overlapping this time range are considered
+     */
+    public async retrieve(
+        target: EmbeddingTarget,
+        query: string,
+        range: { startTime?: Date; endTime?: Date } = {},
+        topK = this.config.embeddingTopK
+    ): Promise<RetrievedMessageWindow[]> {
+        if (!this.isEnabled()) return []
+
+        await this.updateIndex(target)
+
+        const embeddings = await this.getEmbeddings()
+        if (!embeddings) return []
+
+        const store = await this.getStore(target)
+        if (!store.windows.length) return []
+
+        const vector = await embeddings.embedQuery(query)
+        const hits = store
+            .search(vector, topK, range)
+            .filter((hit) => hit.score > 0)
+
+        const messages =
+            await this.ctx.chatluna_group_analysis_message.getStoredMessagesByIds(
+                hits.flatMap((hit) => hit.window.messageIds)
+            )
+        const byId = new Map(messages.map((message) => [message.id, message]))
+
+        return hits
+            .map(({ window, score }) => ({
+                score,
+                start: window.start,
+                end: window.end,
+                // Recalled or expired messages are gone from the database
+                messages: window.messageIds
+                    .map((id) => byId.get(id))
+                    .filter(Boolean)
+            }))
+            .filter((window) => window.messages.length > 0)
+    }
+}
+
+declare module 'koishi' {
+    interface Context {
+        chatluna_group_analysis_embedding: EmbeddingService
+    }
+}
@@ -4,6 +4,7 @@ import {
     AnalysisPromptContext,
     GoldenQuote,
     QueryIntent,
+    SharedLink,
     SummaryTopic,
     UserPersonaProfile,
     UserStats,
@@ -12,7 +13,9 @@ import {
 import { ComputedRef } from 'koishi-plugin-chatluna'
 import { ChatLunaChatModel } from 'koishi-plugin-chatluna/llm-core/platform/model'
 import { getMessageContent } from 'koishi-plugin-chatluna/utils/string'
-import { load } from 'js-yaml'
+import { dump, load } from 'js-yaml'
+import { getContentLeaders, splitMessagesByTokenBudget } from '../utils'
+import { CONTENT_TYPE_LABELS } from '../skins'
 
 export class LLMService extends Service {
     static readonly inject = ['chatluna']
@@ -156,12 +159,13 @@ export class LLMService extends Service {
 
     public async summarizeTopics(
         messagesText: string,
-        context?: AnalysisPromptContext
+        context?: AnalysisPromptContext,
+        config: Config = this.config
     ): Promise<SummaryTopic[]> {
         const prompt = this.fillAnalysisPrompt(
-            this.config.promptTopic
+            config.promptTopic
                 .replace('{messages}', messagesText)
-                .replace('{maxTopics}', this.config.maxTopics.toString()),
+                .replace('{maxTopics}', config.maxTopics.toString()),
             context
         )
         return this._callLLM<SummaryTopic[]>(prompt, '话题分析').then(
@@ -169,24 +173,217 @@ export class LLMService extends Service {
         )
     }
 
+    /**
+     * @param blocks Prompt lines grouped into blocks that are kept in one
+     * chunk where possible, e.g. one block per conversation session
+     * @param config Group settings, their prompts count against the budget
+     */
+    public async splitMessagesIntoChunks(
+        blocks: string[][],
+        config: Config = this.config
+    ): Promise<string[][]> {
+        const limits = await this.getPromptBudget(
+            [config.promptTopic, config.promptGoldenQuotes],
+            config
+        )
+        if (!limits) return [blocks.flat()]
+
+        const { model, contextSize, budget } = limits
+        const chunks = await splitMessagesByTokenBudget(
+            blocks,
+            budget,
+            (text) => model.getNumTokens(text)
+        )
+
+        this.ctx.logger.info(
+            `模型上下文长度 ${contextSize}，每个分块最多 ${budget} tokens，共切分为 ${chunks.length} 个分块。`
+        )
+
+        return chunks
+    }
+
+    /**
+     * Token budget for the text filled into prompts: the share of the context
+     * chunkContextRatio leaves after the longest template, at least 1024
+     * tokens but never more than the context that is actually left
+     * @param templates Prompts the text is filled into
+     * @returns undefined when the model is not available
+     */
+    private async getPromptBudget(templates: string[], config: Config) {
+        const model = (await this.loadModel(this.config.model)).value
+        if (!model) return undefined
+
+        const contextSize = model.getModelMaxContextSize()
+        let promptOverhead = 0
+        for (const template of templates) {
+            promptOverhead = Math.max(
+                promptOverhead,
+                await model.getNumTokens(template)
+            )
+        }
+
+        const budget = Math.max(
+            1,
+            Math.min(
+                contextSize - promptOverhead,
+                Math.max(
+                    1024,
+                    Math.floor(contextSize * config.chunkContextRatio) -
+                        promptOverhead
+                )
+            )
+        )
+        return { model, contextSize, budget }
+    }
+
+    /**
+     * Merge the candidates of all chunks into at most `limit` results.
+     * Candidates that do not fit one merge prompt are merged in groups first
+     * and the results of the groups are merged again.
+     * @param buildPrompt Fills the YAML of some candidates into the merge prompt
+     */
+    private async mergeChunkCandidates<T extends object>(
+        candidates: T[],
+        buildPrompt: (candidatesText: string) => string,
+        limit: number,
+        taskName: string,
+        config: Config
+    ): Promise<T[]> {
+        const limits = await this.getPromptBudget([buildPrompt('')], config)
+
+        let current = candidates
+        for (;;) {
+            const texts = current.map((candidate) =>
+                this.dumpCandidates([candidate])
+            )
+            const groups = limits
+                ? await splitMessagesByTokenBudget(
+                      texts.map((text) => [text]),
+                      limits.budget,
+                      (text) => limits.model.getNumTokens(text)
+                  )
+                : [texts]
+
+            // Groups keep the order of the candidates
+            const starts = groups.map((_, index) =>
+                groups
+                    .slice(0, index)
+                    .reduce((sum, group) => sum + group.length, 0)
+            )
+            const merged = await Promise.all(
+                groups.map(async (group, index) => {
+                    const items = current.slice(
+                        starts[index],
+                        starts[index] + group.length
+                    )
+                    try {
+                        const result = await this._callLLM<T[]>(
+                            buildPrompt(group.join('')),
+                            taskName
+                        )
+                        if (result?.length) return result.slice(0, limit)
+                    } catch (error) {
+                        this.ctx.logger.warn(
+                            `${taskName}失败，将直接使用分块结果:`,
+                            error
+                        )
+                    }
+                    return items.slice(0, limit)
+                })
+            )
+
+            const next = merged.flat()
+            // Stop once a round no longer shrinks the candidates
+            if (groups.length <= 1 || next.length >= current.length) {
+                return next.slice(0, limit)
+            }
+            this.ctx.logger.info(
+                `${taskName}候选过多，已分 ${groups.length} 组合并为 ${next.length} 条，继续合并。`
+            )
+            current = next
+        }
+    }
+
+    public async summarizeTopicsInChunks(
+        chunks: string[][],
+        context?: AnalysisPromptContext,
+        config: Config = this.config
+    ): Promise<SummaryTopic[]> {
+        if (chunks.length <= 1) {
+            return this.summarizeTopics(
+                (chunks[0] ?? []).join('\n'),
+                context,
+                config
+            )
+        }
+
+        const candidates = await Promise.all(
+            chunks.map((chunk, index) =>
+                this.summarizeTopics(chunk.join('\n'), context, config).catch(
+                    (error) => {
+                        this.ctx.logger.warn(
+                            `第 ${index + 1} 个分块话题分析失败:`,
+                            error
+                        )
+                        return [] as SummaryTopic[]
+                    }
+                )
+            )
+        ).then((results) => results.flat())
+
+        if (!candidates.length) return []
+
+        return this.mergeChunkCandidates(
+            candidates,
+            (candidatesText) =>
+                this.fillAnalysisPrompt(
+                    config.promptTopicMerge
+                        .replace('{candidates}', candidatesText)
+                        .replace('{maxTopics}', config.maxTopics.toString()),
+                    context
+                ),
+            config.maxTopics,
+            '话题合并',
+            config
+        )
+    }
+
     public async analyzeUserTitles(
         users: UserStats[],
-        context?: AnalysisPromptContext
+        context?: AnalysisPromptContext,
+        config: Config = this.config
     ): Promise<UserTitle[]> {
         const userSummaries = users
             .sort((a, b) => b.messageCount - a.messageCount)
-            .slice(0, this.config.maxUserTitles)
+            .slice(0, config.maxUserTitles)
             .map(
                 (user) =>
                     `- ${user.nickname} (QQ:${user.userId}): ` +
                     `发言${user.messageCount}条, 平均${user.avgChars}字, ` +
                     `表情比例${user.emojiRatio}, 夜间发言比例${user.nightRatio}, ` +
-                    `回复比例${user.replyRatio}`
+                    `回复比例${user.replyRatio}` +
+                    (user.topWords?.length
+                        ? `, 常用词: ${user.topWords.join('、')}`
+                        : '') +
+                    this.formatUserMedia(user)
+            )
+            .join('\n')
+
+        // Leaders are taken from all members, not only the listed ones
+        const mediaLeaders = getContentLeaders(users)
+            .map(
+                (leader) =>
+                    `- ${CONTENT_TYPE_LABELS[leader.type]}最多: ${leader.nickname} (QQ:${leader.userId}), ${leader.count} 次`
             )
             .join('\n')
 
         const prompt = this.fillAnalysisPrompt(
-            this.config.promptUserTitles.replace('{users}', userSummaries),
+            config.promptUserTitles.replace(
+                '{users}',
+                mediaLeaders
+                    ? `${userSummaries}\n\n媒体之最:\n${mediaLeaders}`
+                    : userSummaries
+            ),
             context
         )
         return this._callLLM<UserTitle[]>(prompt, '用户称号分析').then(
@@ -194,13 +391,24 @@ export class LLMService extends Service {
         )
     }
 
+    private formatUserMedia(user: UserStats) {
+        const media = Object.entries(user.contentTypes ?? {})
+            .filter(([type, count]) => type !== 'text' && count > 0)
+            .map(
+                ([type, count]) =>
+                    `${CONTENT_TYPE_LABELS[type as keyof typeof CONTENT_TYPE_LABELS]}${count}`
+            )
+        return media.length ? `, 发送内容: ${media.join(' ')}` : ''
+    }
+
     public async analyzeGoldenQuotes(
         messagesText: string,
         maxQuotes: number,
-        context?: AnalysisPromptContext
+        context?: AnalysisPromptContext,
+        config: Config = this.config
     ): Promise<GoldenQuote[]> {
         const prompt = this.fillAnalysisPrompt(
-            this.config.promptGoldenQuotes
+            config.promptGoldenQuotes
                 .replace('{messages}', messagesText)
                 .replace('{maxGoldenQuotes}', String(maxQuotes)),
             context
@@ -210,12 +418,201 @@ export class LLMService extends Service {
         )
     }
 
+    public async analyzeGoldenQuotesInChunks(
+        chunks: string[][],
+        maxQuotes: number,
+        context?: AnalysisPromptContext,
+        config: Config = this.config
+    ): Promise<GoldenQuote[]> {
+        if (chunks.length <= 1) {
+            return this.analyzeGoldenQuotes(
+                (chunks[0] ?? []).join('\n'),
+                maxQuotes,
+                context,
+                config
+            )
+        }
+
+        const candidates = await Promise.all(
+            chunks.map((chunk, index) =>
+                this.analyzeGoldenQuotes(
+                    chunk.join('\n'),
+                    maxQuotes,
+                    context,
+                    config
+                ).catch((error) => {
+                    this.ctx.logger.warn(
+                        `第 ${index + 1} 个分块金句分析失败:`,
+                        error
+                    )
+                    return [] as GoldenQuote[]
+                })
+            )
+        ).then((results) => results.flat())
+
+        if (!candidates.length) return []
+
+        return this.mergeChunkCandidates(
+            candidates,
+            (candidatesText) =>
+                this.fillAnalysisPrompt(
+                    config.promptGoldenQuotesMerge
+                        .replace('{candidates}', candidatesText)
+                        .replace('{maxGoldenQuotes}', String(maxQuotes)),
+                    context
+                ),
+            maxQuotes,
+            '金句合并',
+            config
+        )
+    }
+
+    /**
+     * Write a short note on why each link was shared
+     * @param contexts Messages around each share, aligned with links
+     * @returns Notes aligned with links, empty when the model skipped one
+     */
+    public async annotateSharedLinks(
+        links: SharedLink[],
+        contexts: string[],
+        context?: AnalysisPromptContext
+    ): Promise<string[]> {
+        const linksText = links
+            .map((link, index) =>
+                [
+                    `${index + 1}. ${link.title ? `${link.title} ` : ''}${link.url}`,
+                    `分享者: ${link.nickname}，共被分享 ${link.shareCount} 次`,
+                    `聊天记录:\n${contexts[index] || '（无）'}`
+                ].join('\n')
+            )
+            .join('\n\n')
+
+        const prompt = this.fillAnalysisPrompt(
+            this.config.promptSharedLinks.replace('{links}', linksText),
+            context
+        )
+        const data = await this._callLLM<{ index: number; note: string }[]>(
+            prompt,
+            '分享链接整理'
+        )
+
+        const notes: string[] = links.map(() => '')
+        for (const item of data ?? []) {
+            const index = Number(item?.index) - 1
+            if (index >= 0 && index < notes.length && item.note) {
+                notes[index] = String(item.note).trim()
+            }
+        }
+        return notes
+    }
+
+    /**
+     * Score the mood of messages with the small model, in batches of
+     * `sentimentBatchSize`
+     * @returns Scores in [-1, 1] aligned with texts, undefined for messages
+     * the model skipped or whose batch failed
+     */
+    public async scoreSentiment(
+        texts: string[]
+    ): Promise<(number | undefined)[]> {
+        const scores: (number | undefined)[] = texts.map(() => undefined)
+        const batchSize = this.config.sentimentBatchSize
+
+        for (let start = 0; start < texts.length; start += batchSize) {
+            const batch = texts.slice(start, start + batchSize)
+            const prompt = this.config.promptSentiment.replace(
+                '{messages}',
+                batch
+                    .map((text, index) => `${index + 1}. ${text.slice(0, 200)}`)
+                    .join('\n')
+            )
+
+            try {
+                const data = await this._callLLM<
+                    { index: number; score: number }[]
+                >(
+                    prompt,
+                    '群聊情绪打分',
+                    this.config.smallModel || this.config.model
+                )
+
+                for (const item of data ?? []) {
+                    const index = Number(item?.index) - 1
+                    const score = Number(item?.score)
+                    if (index >= 0 && index < batch.length && isFinite(score)) {
+                        scores[start + index] = Math.max(-1, Math.min(1, score))
+                    }
+                }
+            } catch (error) {
+                this.ctx.logger.warn('情绪打分失败，将使用本地词典:', error)
+            }
+        }
+
+        return scores
+    }
+
+    private dumpCandidates(candidates: object[]): string {
+        return dump(candidates, { indent: 2, lineWidth: -1, noRefs: true })
+    }
+
+    /**
+     * Ask the small model which earlier topic each new topic continues
+     * @param previous Latest record of each earlier topic thread
+     * @param topics Topics of the current report
+     * @returns Index into `previous` per topic, undefined for new topics
+     */
+    public async matchContinuedTopics(
+        previous: Pick<SummaryTopic, 'topic' | 'detail'>[],
+        topics: SummaryTopic[]
+    ): Promise<(number | undefined)[]> {
+        const formatTopics = (
+            items: Pick<SummaryTopic, 'topic' | 'detail'>[]
+        ) =>
+            items
+                .map(
+                    (item, index) =>
+                        `${index + 1}. ${item.topic}：${(item.detail ?? '').replace(/\s+/g, ' ').slice(0, 150)}`
+                )
+                .join('\n')
+
+        const prompt = this.config.promptTopicContinuity
+            .replace('{previousTopics}', formatTopics(previous))
+            .replace('{topics}', formatTopics(topics))
+
+        const data = await this._callLLM<{ index: number; match: number }[]>(
+            prompt,
+            '话题延续判断',
+            this.config.smallModel || this.config.model
+        )
+
+        const matches: (number | undefined)[] = topics.map(() => undefined)
+        const used = new Set<number>()
+        for (const item of data ?? []) {
+            const index = Number(item?.index) - 1
+            const match = Number(item?.match) - 1
+            if (
+                index >= 0 &&
+                index < topics.length &&
+                match >= 0 &&
+                match < previous.length &&
+                matches[index] === undefined &&
+                !used.has(match)
+            ) {
+                matches[index] = match
+                used.add(match)
+            }
+        }
+
+        return matches
+    }
+
     public async analyzeUserPersona(
         userId: string,
         username: string,
         roles: string[],
         recentMessages: string,
-        previousAnalysis?: string
+        previousAnalysis?: string,
+        topWords?: string[]
     ): Promise<UserPersonaProfile | null> {
         const filledPrompt = this.config.promptUserPersona
             .replace('{messages}', recentMessages || '（最近暂无发言记录）')
@@ -224,6 +621,7 @@ export class LLMService extends Service {
                 previousAnalysis || '（无历史画像，请从零开始）'
             )
             .replace('{roles}', roles?.join(', ') || '（未知角色）')
+            .replace('{topWords}', topWords?.join('、') || '（暂无统计）')
             .replace('{userId}', userId)
             .replace('{username}', username || userId)
             .replace(
@@ -286,6 +684,7 @@ export class LLMService extends Service {
     public async replyGroupQuery(promptContext: {
         query: string
         analysisResult: string
+        relevantMessages?: string
         currentTime: string
         groupName: string
         guildId?: string
@@ -302,6 +701,10 @@ export class LLMService extends Service {
             .replace('{currentUserName}', promptContext.currentUserName || '')
             .replace('{query}', promptContext.query)
             .replace('{analysisResult}', promptContext.analysisResult || '')
+            .replace(
+                '{relevantMessages}',
+                promptContext.relevantMessages || '（无）'
+            )
 
         return this._callText(prompt, '群分析对话回复')
     }
@@ -1,21 +1,36 @@
-import { Bot, Context, h, Query, Service, Session } from 'koishi'
-import { Config } from '../config'
+import { $, Bot, Context, h, Query, Service, Session } from 'koishi'
+import { Config, GroupListener } from '../config'
 import {
     ActivityStats,
+    GroupStorageStats,
     MessageFilter,
+    MessageSearchResult,
     OneBotMessage,
     PersistenceBuffer,
+    PrivateChatOptIn,
     StoredMessage
 } from '../types'
 import type { OneBotBot } from 'koishi-plugin-adapter-onebot'
 import {
+    appendQuoteElement,
     buildMessagePersistenceKey,
-    getAvatarUrl,
+    deserializeElements,
+    escapeRegExp,
+    extractMessageMetadata,
+    fromOneBotMessage,
+    fromUniversalMessage,
+    getGroupRetentionDays,
     inferPlatformInfo,
     isNapCatBot,
-    shouldListenToMessage as isSessionInListenerGroup
+    shouldListenToMessage as isSessionInListenerGroup,
+    serializeElements
 } from '../utils'
-import { CQCode } from '../onebot/cqcode'
+
+// Columns that tell which group a stored row belongs to
+type ListenerScope = Pick<
+    StoredMessage,
+    'platform' | 'selfId' | 'guildId' | 'channelId'
+>
 
 export class MessageService extends Service {
     private messageCache = new Map<string, StoredMessage[]>()
@@ -25,11 +40,13 @@ export class MessageService extends Service {
 
     private activityStats = new Map<string, ActivityStats>()
     private persistenceBuffers = new Map<string, PersistenceBuffer>()
+    private privateChatOptIns = new Map<string, PrivateChatOptIn>()
     private readonly activityWindowMs = 60 * 1000
     private readonly highActivityThreshold = 30
     private readonly bufferFlushSize = 50
     private readonly bufferIdleFlushMs = 30 * 1000
     private readonly bufferSweepIntervalMs = 30 * 1000
+    private readonly searchScanLimit = 5000
 
     constructor(
         ctx: Context,
@@ -37,6 +54,7 @@ export class MessageService extends Service {
     ) {
         super(ctx, 'chatluna_group_analysis_message', true)
         this.setupDatabase()
+        this.setupPrivateChatOptIns()
         this.setupMessageListener()
         this.setupCacheCleanup()
         this.setupPersistenceTasks()
@@ -60,22 +78,116 @@ export class MessageService extends Service {
                 content: 'text',
                 avatarUrl: 'string',
                 timestamp: 'timestamp',
-                messageId: { type: 'string', nullable: true }
+                messageId: { type: 'string', nullable: true },
+                quoteId: { type: 'string', nullable: true },
+                quoteUserId: { type: 'string', nullable: true },
+                mentionedUserIds: { type: 'list', initial: [] },
+                serializedElements: { type: 'text', nullable: true },
+                recalled: { type: 'boolean', initial: false },
+                editedAt: { type: 'timestamp', nullable: true }
+            },
+            { primary: 'id' }
+        )
+
+        this.ctx.database.extend(
+            'chatluna_private_chat_optins',
+            {
+                id: 'string',
+                platform: 'string',
+                selfId: 'string',
+                userId: 'string',
+                channelId: 'string',
+                createdAt: 'timestamp'
             },
             { primary: 'id' }
         )
     }
 
+    private setupPrivateChatOptIns() {
+        this.ctx.on('ready', async () => {
+            const records = await this.ctx.database
+                .get('chatluna_private_chat_optins', {})
+                .catch((error) => {
+                    this.ctx.logger.warn(
+                        'Failed to load private chat opt-ins:',
+                        error
+                    )
+                    return [] as PrivateChatOptIn[]
+                })
+
+            for (const record of records) {
+                this.privateChatOptIns.set(
+                    this.buildPrivateChatKey(record),
+                    record
+                )
+            }
+        })
+    }
+
     private setupMessageListener() {
         this.ctx.on('message', async (session) => {
+            if (session.isDirect) {
+                if (this.shouldRecordPrivateMessage(session)) {
+                    await this.handleMessage(session)
+                }
+                return
+            }
+
             if (this.shouldListenToMessage(session)) {
                 await this.handleMessage(session)
             }
         })
+
+        this.ctx.on('message-deleted', async (session) => {
+            if (this.isRecordedSession(session)) {
+                await this.handleMessageDeleted(session)
+            }
+        })
+
+        this.ctx.on('message-updated', async (session) => {
+            if (this.isRecordedSession(session)) {
+                await this.handleMessageUpdated(session)
+            }
+        })
+
+        // Keep the bot's own replies so private chat analysis sees both sides
+        this.ctx.on('send', async (session) => {
+            if (session.isDirect && this.shouldRecordPrivateMessage(session)) {
+                await this.handleMessage(session)
+            }
+        })
+    }
+
+    private buildPrivateChatKey(target: {
+        platform: string
+        selfId: string
+        channelId: string
+    }) {
+        return `${target.platform}_${target.selfId}_${target.channelId}`
+    }
+
+    private shouldRecordPrivateMessage(session: Session): boolean {
+        if (!this.config.privateChatRecording || !session.channelId) {
+            return false
+        }
+
+        return this.privateChatOptIns.has(
+            this.buildPrivateChatKey({
+                platform: session.platform,
+                selfId: session.selfId,
+                channelId: session.channelId
+            })
+        )
+    }
+
+    private isRecordedSession(session: Session): boolean {
+        if (!session.messageId) return false
+        return session.isDirect
+            ? this.shouldRecordPrivateMessage(session)
+            : this.shouldListenToMessage(session)
     }
 
     private shouldListenToMessage(session: Session): boolean {
-        // TODO: private message
         return isSessionInListenerGroup(
             {
                 guildId: session.guildId || undefined,
@@ -105,7 +217,11 @@ export class MessageService extends Service {
             username: session.username,
             content: session.content,
             timestamp: new Date(session.timestamp),
-            messageId: session.messageId
+            messageId: session.messageId,
+            elements: appendQuoteElement(
+                session.elements ?? h.parse(session.content),
+                session.quote
+            )
         }
 
         // Add to local cache
@@ -123,6 +239,93 @@ export class MessageService extends Service {
         }
     }
 
+    private async handleMessageDeleted(session: Session) {
+        const { platform, messageId } = session
+
+        // Recalled messages must not surface in reports or persona evidence
+        for (const [key, messages] of this.messageCache.entries()) {
+            const remaining = messages.filter(
+                (message) =>
+                    message.platform !== platform ||
+                    message.messageId !== messageId
+            )
+            if (remaining.length !== messages.length) {
+                this.messageCache.set(key, remaining)
+            }
+        }
+
+        for (const message of this.findBufferedMessages(platform, messageId)) {
+            message.recalled = true
+        }
+
+        await this.ctx.database
+            .set(
+                'chatluna_messages',
+                { platform, selfId: session.selfId, messageId },
+                { recalled: true }
+            )
+            .catch((error) =>
+                this.ctx.logger.warn(
+                    `Failed to mark message ${messageId} as recalled:`,
+                    error
+                )
+            )
+    }
+
+    private async handleMessageUpdated(session: Session) {
+        const { platform, messageId } = session
+        const elements = appendQuoteElement(
+            session.elements ?? h.parse(session.content),
+            session.quote
+        )
+        const editedAt = new Date(session.timestamp || Date.now())
+        const update = (message: StoredMessage) => {
+            message.content = session.content
+            message.elements = elements
+            message.editedAt = editedAt
+        }
+
+        for (const messages of this.messageCache.values()) {
+            messages
+                .filter(
+                    (message) =>
+                        message.platform === platform &&
+                        message.messageId === messageId
+                )
+                .forEach(update)
+        }
+
+        this.findBufferedMessages(platform, messageId).forEach(update)
+
+        await this.ctx.database
+            .set(
+                'chatluna_messages',
+                { platform, selfId: session.selfId, messageId },
+                {
+                    content: session.content,
+                    ...extractMessageMetadata(elements),
+                    serializedElements: serializeElements(elements),
+                    editedAt
+                }
+            )
+            .catch((error) =>
+                this.ctx.logger.warn(
+                    `Failed to update edited message ${messageId}:`,
+                    error
+                )
+            )
+    }
+
+    private findBufferedMessages(platform: string, messageId: string) {
+        return Array.from(this.persistenceBuffers.values()).flatMap((buffer) =>
+            buffer.messages.filter(
+                (message) =>
+                    message.platform === platform &&
+                    message.messageId === messageId
+            )
+        )
+    }
+
     private addToCache(message: StoredMessage) {
         const cacheKey = `${message.platform}_${message.guildId || message.channelId}`
         let messages = this.messageCache.get(cacheKey) || []
@@ -168,32 +371,126 @@ export class MessageService extends Service {
             this.flushAllBuffers()
         })
 
-        const retentionDays = this.config.retentionDays
-
-        if (retentionDays === 0) {
-            return
-        }
-
-        const retentionMs = retentionDays * 24 * 60 * 60 * 1000
         this.ctx.setInterval(
             async () => {
-                const cutoff = new Date(Date.now() - retentionMs)
-                const removalQuery: Query<StoredMessage> = {
-                    timestamp: { $lt: cutoff }
-                }
-                await this.ctx.database
-                    .remove('chatluna_messages', removalQuery)
-                    .catch((error) =>
-                        this.ctx.logger.warn(
-                            'Failed to cleanup expired cached messages:',
-                            error
-                        )
+                await this.cleanupStoredMessages().catch((error) =>
+                    this.ctx.logger.warn(
+                        'Failed to cleanup expired cached messages:',
+                        error
                     )
+                )
             },
             6 * 60 * 60 * 1000
         )
     }
 
+    private buildListenerQuery(
+        listener: GroupListener
+    ): Query.Expr<ListenerScope> {
+        const scopes: Query.Expr<ListenerScope>[] = [
+            { channelId: listener.channelId }
+        ]
+        if (listener.guildId) scopes.push({ guildId: listener.guildId })
+
+        return {
+            platform: listener.platform,
+            selfId: listener.selfId,
+            $or: scopes
+        }
+    }
+
+    /**
+     * Enforce the global retention period, the per-group retention
+     * overrides and the per-group row quotas of listenerGroups.
+     */
+    private async cleanupStoredMessages() {
+        await this.removeExpiredRows((scope, cutoff) =>
+            this.ctx.database.remove('chatluna_messages', {
+                ...scope,
+                timestamp: { $lt: cutoff }
+            })
+        )
+
+        // Topic history of reports is kept as long as the messages of its
+        // group. The table belongs to the analysis service, which may not
+        // be loaded.
+        if (this.ctx.database.tables['chatluna_group_topics']) {
+            await this.removeExpiredRows((scope, cutoff) =>
+                this.ctx.database.remove('chatluna_group_topics', {
+                    ...scope,
+                    endTime: { $lt: cutoff }
+                })
+            )
+        }
+
+        for (const listener of this.config.listenerGroups) {
+            if (listener.maxStoredMessages > 0) {
+                await this.enforceStorageQuota(listener)
+            }
+        }
+    }
+
+    /**
+     * Remove the rows older than the retention period of their group
+     * @param remove Removes the rows of a scope older than the cutoff
+     */
+    private async removeExpiredRows(
+        remove: (
+            scope: Query.Expr<ListenerScope>,
+            cutoff: Date
+        ) => Promise<unknown>
+    ) {
+        const dayMs = 24 * 60 * 60 * 1000
+        const now = Date.now()
+        const customRetention = this.config.listenerGroups.filter(
+            (listener) => listener.retentionDays > 0
+        )
+
+        for (const listener of customRetention) {
+            await remove(
+                this.buildListenerQuery(listener),
+                new Date(now - listener.retentionDays * dayMs)
+            )
+        }
+
+        // Groups with their own retention period are handled above
+        const globalQuery: Query.Expr<ListenerScope> = {}
+        if (customRetention.length) {
+            globalQuery.$not = {
+                $or: customRetention.map((listener) =>
+                    this.buildListenerQuery(listener)
+                )
+            }
+        }
+        await remove(
+            globalQuery,
+            new Date(now - this.config.retentionDays * dayMs)
+        )
+    }
+
+    private async enforceStorageQuota(listener: GroupListener) {
+        const query = this.buildListenerQuery(listener)
+        const batchSize = 1000
+
+        while (true) {
+            const excess = await this.ctx.database
+                .select('chatluna_messages')
+                .where(query)
+                .orderBy(($) => $.timestamp, 'desc')
+                .offset(listener.maxStoredMessages)
+                .limit(batchSize)
+                .execute(['id'])
+
+            if (!excess.length) break
+
+            await this.ctx.database.remove('chatluna_messages', {
+                id: { $in: excess.map((row) => row.id) }
+            })
+
+            if (excess.length < batchSize) break
+        }
+    }
+
     private async getBotAPIHistoricalMessages(
         filter: MessageFilter,
         bot: Bot
@@ -230,33 +527,14 @@ export class MessageService extends Service {
 
                 queryRounds++
 
-                const batch = messageList.data.map((msg) => ({
-                    id: `${bot.platform}_${bot.selfId}_${targetId}_${msg.id}`,
-                    platform: bot.platform,
-                    selfId: bot.selfId,
-                    channelId: filter.channelId,
-                    guildId: msg.guild?.id ?? filter.guildId,
-                    userId: msg.user.id,
-                    username:
-                        msg.member?.name ?? msg.user.name ?? msg.user.nick,
-                    content: msg.content,
-                    timestamp: new Date(msg.createdAt ?? msg.timestamp),
-                    messageId: msg.id,
-                    avatarUrl: msg.user.avatar || '',
-                    elements: h.parse(msg.content).concat(
-                        msg.quote
-                            ? h(
-                                  'quote',
-                                  {
-                                      id: msg.quote.id,
-                                      userId: msg.quote.user.id,
-                                      name: msg.quote.user.name
-                                  },
-                                  msg.quote.elements
-                              )
-                            : []
-                    )
-                }))
+                const batch = messageList.data.map((msg) =>
+                    fromUniversalMessage(msg, {
+                        platform: bot.platform,
+                        selfId: bot.selfId,
+                        channelId: targetId,
+                        guildId: filter.guildId
+                    })
+                )
 
                 const validMessages = batch.filter((msg) => {
                     const withinTimeRange =
@@ -325,9 +603,7 @@ export class MessageService extends Service {
         }
     }
 
-    public async getHistoricalMessages(
-        filter: MessageFilter
-    ): Promise<StoredMessage[]> {
+    private resolveHistoryBot(filter: MessageFilter) {
         const botFromSelfId = filter.selfId
             ? this.ctx.bots.find((b) => b.selfId === filter.selfId)
             : undefined
@@ -337,6 +613,31 @@ export class MessageService extends Service {
         const bot = this.ctx.bots.find(
             (b) => b.platform === platform && b.selfId === selfId
         )
+        return { platform, bot }
+    }
+
+    /**
+     * Whether every message of the target is written to the database, so it
+     * can be queried there instead of through the platform API
+     */
+    private isDatabaseHistorySource(filter: MessageFilter): boolean {
+        const { platform, bot } = this.resolveHistoryBot(filter)
+        return (
+            this.config.alwaysPersistMessages ||
+            this.config.mergeHistorySources ||
+            (platform !== 'onebot' && !bot?.['getMessageList'])
+        )
+    }
+
+    public async getHistoricalMessages(
+        filter: MessageFilter
+    ): Promise<StoredMessage[]> {
+        const { platform, bot } = this.resolveHistoryBot(filter)
+
+        if (this.config.mergeHistorySources) {
+            this.ctx.logger.info('使用数据库与平台接口合并的历史消息获取功能。')
+            return this.getMergedHistoricalMessages(filter, platform, bot)
+        }
 
         if (this.config.alwaysPersistMessages) {
             this.ctx.logger.info('使用数据库历史消息获取功能。')
@@ -369,6 +670,74 @@ export class MessageService extends Service {
         return this.getDatabaseHistoricalMessages(filter)
     }
 
+    /**
+     * Query the database and the platform API together, so that gaps in
+     * either source (bot downtime, API page limits) do not drop messages.
+     * Messages only the API returned are written back to the database.
+     */
+    private async getMergedHistoricalMessages(
+        filter: MessageFilter,
+        platform: string | undefined,
+        bot: Bot | undefined
+    ): Promise<StoredMessage[]> {
+        const apiSource =
+            platform === 'onebot'
+                ? this.getOneBotHistoricalMessages(filter)
+                : bot?.['getMessageList']
+                  ? this.getBotAPIHistoricalMessages(filter, bot)
+                  : Promise.resolve([] as StoredMessage[])
+
+        await this.flushAllBuffers()
+        const [databaseMessages, apiMessages] = await Promise.all([
+            // Recalled rows are needed to drop their copies from the API
+            this.getDatabaseHistoricalMessages({
+                ...filter,
+                includeRecalled: true
+            }),
+            apiSource
+        ])
+
+        const getKey = (message: StoredMessage) =>
+            message.messageId ? `msg:${message.messageId}` : `id:${message.id}`
+
+        const recalled = new Set<string>()
+        const merged = new Map<string, StoredMessage>()
+        for (const message of databaseMessages) {
+            if (message.recalled && !filter.includeRecalled) {
+                recalled.add(getKey(message))
+                continue
+            }
+            merged.set(getKey(message), message)
+        }
+
+        const missing = apiMessages.filter((message) => {
+            const key = getKey(message)
+            if (merged.has(key) || recalled.has(key)) return false
+            merged.set(key, message)
+            return true
+        })
+
+        if (missing.length) {
+            this.ctx.logger.info(
+                `数据库缺失 ${missing.length} 条历史消息，已从平台接口补全并写回数据库。`
+            )
+            await this.importMessages(missing).catch((error) =>
+                this.ctx.logger.warn(
+                    'Failed to write back merged historical messages:',
+                    error
+                )
+            )
+        }
+
+        const messages = Array.from(merged.values()).sort(
+            (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+        )
+
+        // Both sources return the newest messages first, keep that window
+        const limit = filter.limit ?? 100
+        return messages.slice(Math.max(0, messages.length - limit))
+    }
+
     private async getOneBotHistoricalMessages(
         filter: MessageFilter
     ): Promise<StoredMessage[]> {
@@ -503,20 +872,13 @@ export class MessageService extends Service {
             }
 
             // Convert to StoredMessage format
-            const results = messages.map((msg) => ({
-                id: `onebot_${msg.message_id}`,
-                platform: 'onebot',
-                selfId: bot.selfId,
-                channelId: targetId,
-                guildId: filter.guildId,
-                userId: String(msg.sender.user_id),
-                username: msg.sender.nickname,
-                content: msg.raw_message || '',
-                avatarUrl: getAvatarUrl(msg.sender.user_id),
-                timestamp: new Date(msg.time * 1000),
-                messageId: String(msg.message_id),
-                elements: CQCode.parse(msg.raw_message)
-            }))
+            const results = messages.map((msg) =>
+                fromOneBotMessage(msg, {
+                    selfId: bot.selfId,
+                    channelId: targetId,
+                    guildId: filter.guildId
+                })
+            )
 
             return results
         } catch (error) {
@@ -530,53 +892,61 @@ export class MessageService extends Service {
         }
     }
 
-    private async getDatabaseHistoricalMessages(
+    private buildDatabaseQuery(
         filter: MessageFilter
-    ): Promise<StoredMessage[]> {
-        try {
-            const query: Query<StoredMessage> = {}
+    ): Query.Expr<StoredMessage> {
+        const query: Query.Expr<StoredMessage> = {}
+
+        if (filter.guildId) query.guildId = filter.guildId
+        if (filter.channelId) query.channelId = filter.channelId
+        if (filter.userId && filter.userId.length > 0)
+            query.userId = {
+                $in: filter.userId
+            }
 
-            if (filter.guildId) query.guildId = filter.guildId
-            if (filter.channelId) query.channelId = filter.channelId
-            if (filter.userId && filter.userId.length > 0)
-                query.userId = {
-                    $in: filter.userId
-                }
+        if (!filter.includeRecalled) query.recalled = false
 
-            if (filter.startTime || filter.endTime) {
-                query.timestamp = {}
-                if (filter.startTime) query.timestamp.$gte = filter.startTime
-                if (filter.endTime) query.timestamp.$lte = filter.endTime
-            }
+        if (filter.startTime || filter.endTime) {
+            query.timestamp = {}
+            if (filter.startTime) query.timestamp.$gte = filter.startTime
+            if (filter.endTime) query.timestamp.$lte = filter.endTime
+        }
 
-            // Apply purpose-based filtering
-            if (
-                filter.purpose === 'group-analysis' &&
-                this.config.userFilter.length > 0
-            ) {
-                // Exclude users in userFilter for group analysis
-                query.userId = query.userId
-                    ? {
-                          $in: filter.userId.filter(
-                              (userId) =>
-                                  !this.config.userFilter.includes(userId)
-                          )
-                      }
-                    : { $nin: this.config.userFilter }
-            } else if (
-                filter.purpose === 'user-persona' &&
-                this.config.personaUserFilter.length > 0
-            ) {
-                // Exclude users in personaUserFilter for user persona
-                query.userId = query.userId
-                    ? {
-                          $in: filter.userId.filter(
-                              (userId) =>
-                                  !this.config.userFilter.includes(userId)
-                          )
-                      }
-                    : { $nin: this.config.personaUserFilter }
-            }
+        // Apply purpose-based filtering
+        if (
+            filter.purpose === 'group-analysis' &&
+            this.config.userFilter.length > 0
+        ) {
+            // Exclude users in userFilter for group analysis
+            query.userId = query.userId
+                ? {
+                      $in: filter.userId.filter(
+                          (userId) => !this.config.userFilter.includes(userId)
+                      )
+                  }
+                : { $nin: this.config.userFilter }
+        } else if (
+            filter.purpose === 'user-persona' &&
+            this.config.personaUserFilter.length > 0
+        ) {
+            // Exclude users in personaUserFilter for user persona
+            query.userId = query.userId
+                ? {
+                      $in: filter.userId.filter(
+                          (userId) => !this.config.userFilter.includes(userId)
+                      )
+                  }
+                : { $nin: this.config.personaUserFilter }
+        }
+
+        return query
+    }
+
+    private async getDatabaseHistoricalMessages(
+        filter: MessageFilter
+    ): Promise<StoredMessage[]> {
+        try {
+            const query = this.buildDatabaseQuery(filter)
 
             const messages = await this.ctx.database
                 .select('chatluna_messages')
@@ -588,7 +958,7 @@ export class MessageService extends Service {
 
             return messages.map((message) => ({
                 ...message,
-                elements: h.parse(message.content)
+                elements: this.restoreElements(message)
             }))
         } catch (error) {
             this.ctx.logger.error(
@@ -614,7 +984,8 @@ export class MessageService extends Service {
         session: Session,
         storedMessage: StoredMessage
     ) {
-        if (this.config.alwaysPersistMessages) {
+        // Private chats have no history API to fall back on
+        if (this.config.alwaysPersistMessages || session.isDirect) {
             await this.enqueueMessageForPersistence(storedMessage)
             return
         }
@@ -688,16 +1059,427 @@ export class MessageService extends Service {
         await Promise.allSettled(tasks)
     }
 
+    private restoreElements(message: StoredMessage): h[] {
+        if (!message.serializedElements) return h.parse(message.content)
+
+        try {
+            return deserializeElements(message.serializedElements)
+        } catch (error) {
+            this.ctx.logger.warn(
+                `Failed to restore elements of message ${message.id}:`,
+                error
+            )
+            return h.parse(message.content)
+        }
+    }
+
+    private toDatabaseRecord(message: StoredMessage): StoredMessage {
+        const { elements, ...record } = message
+        if (!elements) return record
+
+        return {
+            ...record,
+            ...extractMessageMetadata(elements),
+            serializedElements: serializeElements(elements)
+        }
+    }
+
     private async persistMessages(messages: StoredMessage[]) {
         if (!messages.length) return
 
         try {
-            await this.ctx.database.upsert('chatluna_messages', messages)
+            await this.ctx.database.upsert(
+                'chatluna_messages',
+                messages.map((message) => this.toDatabaseRecord(message))
+            )
         } catch (error) {
             this.ctx.logger.warn('Failed to store message in database:', error)
         }
     }
 
+    /**
+     * Write imported history into the database, skipping messages whose
+     * messageId already exists in the same channel.
+     */
+    public async importMessages(
+        messages: StoredMessage[]
+    ): Promise<{ imported: number; skipped: number }> {
+        const batchSize = 500
+        let imported = 0
+        let skipped = 0
+
+        for (let i = 0; i < messages.length; i += batchSize) {
+            const batch = messages.slice(i, i + batchSize)
+            const { channelId } = batch[0]
+
+            const existing = await this.ctx.database
+                .select('chatluna_messages')
+                .where({
+                    channelId,
+                    messageId: {
+                        $in: batch.map((message) => message.messageId)
+                    }
+                })
+                .execute(['messageId'])
+            const existingIds = new Set(existing.map((row) => row.messageId))
+
+            const fresh = batch.filter((message) => {
+                if (existingIds.has(message.messageId)) return false
+                existingIds.add(message.messageId)
+                return true
+            })
+
+            await this.persistMessages(fresh)
+            imported += fresh.length
+            skipped += batch.length - fresh.length
+        }
+
+        return { imported, skipped }
+    }
+
+    public isPrivateChatRecording(session: Session): boolean {
+        return this.shouldRecordPrivateMessage(session)
+    }
+
+    public async enablePrivateChatRecording(session: Session) {
+        const record: PrivateChatOptIn = {
+            id: `${session.platform}_${session.selfId}_${session.userId}`,
+            platform: session.platform,
+            selfId: session.selfId,
+            userId: session.userId,
+            channelId: session.channelId,
+            createdAt: new Date()
+        }
+
+        await this.ctx.database.upsert('chatluna_private_chat_optins', [record])
+        this.privateChatOptIns.set(this.buildPrivateChatKey(record), record)
+    }
+
+    /**
+     * Stop recording the private chat of the session and delete what has
+     * been recorded so far.
+     * @returns The number of removed messages
+     */
+    public async disablePrivateChatRecording(session: Session) {
+        const key = this.buildPrivateChatKey({
+            platform: session.platform,
+            selfId: session.selfId,
+            channelId: session.channelId
+        })
+        const record = this.privateChatOptIns.get(key)
+        this.privateChatOptIns.delete(key)
+
+        if (record) {
+            await this.ctx.database.remove('chatluna_private_chat_optins', {
+                id: record.id
+            })
+        }
+
+        await this.flushAllBuffers()
+
+        const result = await this.ctx.database.remove('chatluna_messages', {
+            platform: session.platform,
+            selfId: session.selfId,
+            channelId: session.channelId
+        })
+
+        return result.removed ?? 0
+    }
+
+    public async getPrivateChatMessages(
+        session: Session,
+        startTime: Date,
+        endTime: Date,
+        limit: number
+    ): Promise<StoredMessage[]> {
+        await this.flushAllBuffers()
+
+        const messages = await this.getDatabaseHistoricalMessages({
+            channelId: session.channelId,
+            selfId: session.selfId,
+            startTime,
+            endTime,
+            limit,
+            purpose: 'general'
+        })
+
+        return messages.sort(
+            (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+        )
+    }
+
+    /**
+     * Row count and stored date span of every group in chatluna_messages,
+     * together with the retention settings that apply to it.
+     */
+    public async getStorageStats(): Promise<GroupStorageStats[]> {
+        await this.flushAllBuffers()
+
+        const rows = await this.ctx.database
+            .select('chatluna_messages')
+            .groupBy(['platform', 'selfId', 'guildId', 'channelId'], {
+                count: (row) => $.count(row.id),
+                start: (row) => $.min(row.timestamp),
+                end: (row) => $.max(row.timestamp)
+            })
+            .execute()
+
+        return rows
+            .map((row) => {
+                const listener = this.config.listenerGroups.find(
+                    (listener) =>
+                        listener.platform === row.platform &&
+                        listener.selfId === row.selfId &&
+                        (listener.channelId === row.channelId ||
+                            (!!listener.guildId &&
+                                listener.guildId === row.guildId))
+                )
+
+                return {
+                    platform: row.platform,
+                    selfId: row.selfId,
+                    guildId: row.guildId,
+                    channelId: row.channelId,
+                    count: row.count,
+                    start: new Date(row.start as Date),
+                    end: new Date(row.end as Date),
+                    retentionDays:
+                        listener?.retentionDays || this.config.retentionDays,
+                    maxStoredMessages: listener?.maxStoredMessages || 0
+                }
+            })
+            .sort((a, b) => b.count - a.count)
+    }
+
+    /**
+     * Read stored messages from the database in chronological order,
+     * regardless of the configured history source.
+     */
+    public async getStoredMessages(
+        filter: MessageFilter
+    ): Promise<StoredMessage[]> {
+        await this.flushAllBuffers()
+
+        const messages = await this.ctx.database
+            .select('chatluna_messages')
+            .where(this.buildDatabaseQuery(filter))
+            .offset(filter.offset ?? 0)
+            .limit(filter.limit ?? 100)
+            .orderBy(($) => $.timestamp, 'asc')
+            .execute()
+
+        return messages.map((message) => ({
+            ...message,
+            elements: this.restoreElements(message)
+        }))
+    }
+
+    /**
+     * Count the messages of a filter in the database without loading them
+     * @returns undefined when the history of the target comes from the
+     * platform API, so the database does not hold all of it
+     */
+    public async countHistoricalMessages(
+        filter: MessageFilter
+    ): Promise<number | undefined> {
+        if (!this.isDatabaseHistorySource(filter)) return undefined
+
+        await this.flushAllBuffers()
+        return this.ctx.database
+            .select('chatluna_messages')
+            .where(this.buildDatabaseQuery(filter))
+            .execute((row) => $.count(row.id))
+    }
+
+    /**
+     * Count the messages of each sender in the database without loading them
+     * @returns Message counts by user id, undefined when the history of the
+     * target comes from the platform API
+     */
+    public async countHistoricalMessagesByUser(
+        filter: MessageFilter
+    ): Promise<Record<string, number> | undefined> {
+        if (!this.isDatabaseHistorySource(filter)) return undefined
+
+        await this.flushAllBuffers()
+        const rows = await this.ctx.database
+            .select('chatluna_messages')
+            .where(this.buildDatabaseQuery(filter))
+            .groupBy(['userId'], { count: (row) => $.count(row.id) })
+            .execute()
+
+        return Object.fromEntries(
+            rows.map((row) => [String(row.userId), row.count])
+        )
+    }
+
+    public async getStoredMessagesByIds(
+        ids: string[]
+    ): Promise<StoredMessage[]> {
+        if (!ids.length) return []
+
+        const messages = await this.ctx.database.get('chatluna_messages', {
+            id: { $in: ids },
+            recalled: false
+        })
+
+        return messages
+            .map((message) => ({
+                ...message,
+                elements: this.restoreElements(message)
+            }))
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    }
+
+    /**
+     * Find messages containing all keywords, newest first, together with a
+     * few surrounding messages of the same channel. The database is queried
+     * directly when it is the history source, otherwise the active source
+     * is scanned in memory.
+     */
+    public async searchMessages(
+        filter: MessageFilter,
+        keywords: string[],
+        page = 1,
+        pageSize = 10,
+        contextSize = 2
+    ): Promise<MessageSearchResult> {
+        const result = this.isDatabaseHistorySource(filter)
+            ? await this.searchDatabaseMessages(
+                  filter,
+                  keywords,
+                  page,
+                  pageSize,
+                  contextSize
+              )
+            : await this.searchHistorySource(
+                  filter,
+                  keywords,
+                  page,
+                  pageSize,
+                  contextSize
+              )
+
+        return { keywords, page, pageSize, ...result }
+    }
+
+    private async searchDatabaseMessages(
+        filter: MessageFilter,
+        keywords: string[],
+        page: number,
+        pageSize: number,
+        contextSize: number
+    ): Promise<Pick<MessageSearchResult, 'total' | 'hits'>> {
+        await this.flushAllBuffers()
+
+        const query: Query.Expr<StoredMessage> = {
+            ...this.buildDatabaseQuery(filter),
+            $and: keywords.map((keyword) => ({
+                content: { $regex: new RegExp(escapeRegExp(keyword), 'i') }
+            }))
+        }
+
+        const total = await this.ctx.database
+            .select('chatluna_messages')
+            .where(query)
+            .execute((row) => $.count(row.id))
+
+        const matches = await this.ctx.database
+            .select('chatluna_messages')
+            .where(query)
+            .orderBy((row) => row.timestamp, 'desc')
+            .offset((page - 1) * pageSize)
+            .limit(pageSize)
+            .execute()
+
+        const hits = await Promise.all(
+            matches.map(async (message) => {
+                const scope: Query.Expr<StoredMessage> = {
+                    platform: message.platform,
+                    channelId: message.channelId,
+                    recalled: false
+                }
+                const before = await this.ctx.database
+                    .select('chatluna_messages')
+                    .where({
+                        ...scope,
+                        timestamp: { $lte: message.timestamp },
+                        id: { $ne: message.id }
+                    })
+                    .orderBy((row) => row.timestamp, 'desc')
+                    .limit(contextSize)
+                    .execute()
+                // Messages sent in the same second match both sides, keep
+                // them before the hit only
+                const after = await this.ctx.database
+                    .select('chatluna_messages')
+                    .where({
+                        ...scope,
+                        timestamp: { $gte: message.timestamp },
+                        id: {
+                            $nin: [message.id, ...before.map((row) => row.id)]
+                        }
+                    })
+                    .orderBy((row) => row.timestamp, 'asc')
+                    .limit(contextSize)
+                    .execute()
+
+                return { message, before: before.reverse(), after }
+            })
+        )
+
+        return { total, hits }
+    }
+
+    private async searchHistorySource(
+        filter: MessageFilter,
+        keywords: string[],
+        page: number,
+        pageSize: number,
+        contextSize: number
+    ): Promise<Pick<MessageSearchResult, 'total' | 'hits'>> {
+        const retentionDays = getGroupRetentionDays(this.config, {
+            ...filter,
+            platform: this.resolveHistoryBot(filter).platform
+        })
+        // Context should include every speaker, so filter users afterwards
+        const messages = (
+            await this.getHistoricalMessages({
+                ...filter,
+                userId: undefined,
+                offset: undefined,
+                startTime:
+                    filter.startTime ??
+                    new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000),
+                limit: this.searchScanLimit
+            })
+        ).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+
+        const lowerKeywords = keywords.map((keyword) => keyword.toLowerCase())
+        const matchedIndexes = messages
+            .map((message, index) => ({ message, index }))
+            .filter(
+                ({ message }) =>
+                    (!filter.userId?.length ||
+                        filter.userId.includes(message.userId)) &&
+                    lowerKeywords.every((keyword) =>
+                        message.content.toLowerCase().includes(keyword)
+                    )
+            )
+            .map(({ index }) => index)
+            .reverse()
+
+        const hits = matchedIndexes
+            .slice((page - 1) * pageSize, page * pageSize)
+            .map((index) => ({
+                message: messages[index],
+                before: messages.slice(Math.max(0, index - contextSize), index),
+                after: messages.slice(index + 1, index + 1 + contextSize)
+            }))
+
+        return { total: matchedIndexes.length, hits }
+    }
+
     public getRecentMessages(
         guildId?: string,
         channelId?: string,
@@ -748,5 +1530,6 @@ declare module 'koishi' {
 
     interface Tables {
         chatluna_messages: StoredMessage
+        chatluna_private_chat_optins: PrivateChatOptIn
     }
 }
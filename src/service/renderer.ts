@@ -1,18 +1,102 @@
 import { Context, Service } from 'koishi'
 import { promises as fs } from 'fs'
 import path from 'path'
-import { GroupAnalysisResult, UserPersonaProfile } from '../types'
+import {
+    GroupAnalysisResult,
+    GroupOverview,
+    GroupRankingMetric,
+    MessageSearchResult,
+    UserPersonaProfile
+} from '../types'
 import { Config } from '../config'
 import { fileURLToPath } from 'url'
 import {
+    formatContentMix,
+    formatEmojiLeaderboard,
     formatGoldenQuotes,
+    formatGroupRanking,
+    formatInteractionGraph,
+    formatSharedLinks,
     formatTopics,
+    formatTrend,
     formatUserStats,
     formatUserTitles,
+    formatWordCloud,
     generateActiveHoursChart,
+    generateMoodChart,
+    rankGroupOverview,
     renderTemplate
 } from '../utils'
 import { skinRegistry } from '../skins'
+import { formatSearchResultHtml } from '../search'
+
+interface PageClip {
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+/**
+ * Runs inside the page. Collects the top edges of the container's blocks as
+ * cut candidates, descending into blocks taller than a page, then cuts
+ * greedily at the lowest candidate that keeps each page under `maxHeight`.
+ * A block with no usable candidate is cut at exactly `maxHeight`.
+ *
+ * The function is serialized into the page, so it must not define named
+ * inner functions: the bundler would wrap them with a helper that does not
+ * exist there.
+ */
+function computePageClips(selector: string, maxHeight: number) {
+    const container = document.querySelector(selector)
+    if (!container) return null
+
+    const rect = container.getBoundingClientRect()
+    const top = rect.top + window.scrollY
+    const bottom = top + rect.height
+    const cuts: number[] = []
+
+    const pending: Element[] = [container]
+    while (pending.length) {
+        const children = Array.from(pending.pop().children).filter(
+            (child) => child.getBoundingClientRect().height > 0
+        )
+        children.forEach((child, index) => {
+            const previous = children[index - 1]
+            // Never leave a section title alone at the bottom of a page
+            const afterHeading =
+                previous &&
+                (/^H[1-6]$/.test(previous.tagName) ||
+                    /title|header|label/i.test(
+                        previous.getAttribute('class') ?? ''
+                    ))
+            const childRect = child.getBoundingClientRect()
+            if (index > 0 && !afterHeading) {
+                cuts.push(childRect.top + window.scrollY)
+            }
+            if (childRect.height > maxHeight) pending.push(child)
+        })
+    }
+
+    const candidates = Array.from(new Set(cuts.map(Math.round)))
+        .filter((y) => y > top && y < bottom)
+        .sort((a, b) => a - b)
+
+    const clips: PageClip[] = []
+    const x = rect.left + window.scrollX
+    let start = top
+    while (bottom - start > maxHeight) {
+        const end =
+            candidates
+                .filter((y) => y > start && y <= start + maxHeight)
+                .pop() ?? start + maxHeight
+        clips.push({ x, y: start, width: rect.width, height: end - start })
+        start = end
+    }
+    clips.push({ x, y: start, width: rect.width, height: bottom - start })
+
+    return clips
+}
 
 export class RendererService extends Service {
     static inject = ['puppeteer']
@@ -35,8 +119,10 @@ export class RendererService extends Service {
         })
     }
 
-    private getSkinPath(filename: string): string {
-        const skin = this.config.skin || 'md3'
+    private getSkinPath(
+        filename: string,
+        skin = this.config.skin || 'md3'
+    ): string {
         return path.resolve(this.templateDir, skin, filename)
     }
 
@@ -74,34 +160,36 @@ export class RendererService extends Service {
         const resourcesDir = dirname + '/../resources'
 
         const templateDir = this.templateDir
-        const skin = this.config.skin || 'md3'
-
-        // Source: resources/md3 (or other skin)
-        const skinSourceDir = path.resolve(resourcesDir, skin)
-        // Destination: data/chatluna/group_analysis/md3
-        const skinDestDir = path.resolve(templateDir, skin)
-
-        /* try {
-            await fs.access(skinDestDir)
-        } catch (error) { */
-        await fs.mkdir(skinDestDir, { recursive: true })
-
-        // Copy only the configured skin directory
-        await fs.cp(skinSourceDir, skinDestDir, { recursive: true })
-        /*   } */
-
-        const tempHtmlFiles = await fs
-            .readdir(skinDestDir)
-            .then((files) =>
-                files.filter(
-                    (file) =>
-                        file.endsWith('.html') && !file.startsWith('template')
+        // Groups and report schedules may render with their own skins, and
+        // saved reports are re-rendered with the skin they were sent with
+        for (const skin of skinRegistry.getAllIds()) {
+            // Source: resources/md3 (or other skin)
+            const skinSourceDir = path.resolve(resourcesDir, skin)
+            // Destination: data/chatluna/group_analysis/md3
+            const skinDestDir = path.resolve(templateDir, skin)
+
+            /* try {
+                await fs.access(skinDestDir)
+            } catch (error) { */
+            await fs.mkdir(skinDestDir, { recursive: true })
+
+            await fs.cp(skinSourceDir, skinDestDir, { recursive: true })
+            /*   } */
+
+            const tempHtmlFiles = await fs
+                .readdir(skinDestDir)
+                .then((files) =>
+                    files.filter(
+                        (file) =>
+                            file.endsWith('.html') &&
+                            !file.startsWith('template')
+                    )
                 )
-            )
-            .catch(() => [])
+                .catch(() => [])
 
-        for (const file of tempHtmlFiles) {
-            await fs.unlink(path.resolve(skinDestDir, file))
+            for (const file of tempHtmlFiles) {
+                await fs.unlink(path.resolve(skinDestDir, file))
+            }
         }
 
         const page = await this.ctx.puppeteer.page()
@@ -130,15 +218,16 @@ export class RendererService extends Service {
     }
 
     public async renderGroupAnalysisToPdf(
-        data: GroupAnalysisResult
+        data: GroupAnalysisResult,
+        config: Config = this.config
     ): Promise<Buffer> {
-        let theme = this.config.theme
+        let theme = config.theme
         if (theme === 'auto') {
             const hour = new Date().getHours()
             theme = hour >= 19 || hour < 6 ? 'dark' : 'light'
         }
 
-        const page = await this._renderGroupAnalysis(data, theme)
+        const page = await this._renderGroupAnalysis(data, theme, config.skin)
 
         const pdfBuffer = await page.pdf({ format: 'A4' })
         await page.close()
@@ -157,7 +246,11 @@ export class RendererService extends Service {
                 theme = hour >= 19 || hour < 6 ? 'dark' : 'light'
             }
 
-            const page = await this._renderGroupAnalysis(data, theme)
+            const page = await this._renderGroupAnalysis(
+                data,
+                theme,
+                config.skin
+            )
 
             // 找到页面中的 container 元素
             const renderer = skinRegistry.getSafe(config.skin || 'md3')
@@ -182,18 +275,73 @@ export class RendererService extends Service {
         }
     }
 
+    /**
+     * Render the report and cut it into images no taller than
+     * `config.imagePageMaxHeight`, preferring cuts between sections.
+     */
+    public async renderGroupAnalysisPages(
+        data: GroupAnalysisResult,
+        config: Config
+    ): Promise<Buffer[] | string> {
+        try {
+            let theme = config.theme
+            if (theme === 'auto') {
+                const hour = new Date().getHours()
+                theme = hour >= 19 || hour < 6 ? 'dark' : 'light'
+            }
+
+            const page = await this._renderGroupAnalysis(
+                data,
+                theme,
+                config.skin
+            )
+
+            const renderer = skinRegistry.getSafe(config.skin || 'md3')
+            const selector = renderer.containerSelector
+            const clips = await page.evaluate(
+                computePageClips,
+                selector,
+                config.imagePageMaxHeight
+            )
+            if (!clips) {
+                await page.close()
+                throw new Error(`无法在渲染的 HTML 中找到 ${selector} 元素。`)
+            }
+
+            const images: Buffer[] = []
+            for (const clip of clips) {
+                images.push(
+                    (await page.screenshot({
+                        clip,
+                        captureBeyondViewport: true
+                    })) as Buffer
+                )
+            }
+            await page.close()
+
+            this.ctx.logger.info(`图片渲染成功，共 ${images.length} 页！`)
+            return images
+        } catch (error) {
+            this.ctx.logger.error('渲染报告图片时发生错误:', error)
+            if (error instanceof Error) {
+                return `图片渲染失败: ${error.message}`
+            }
+            return '图片渲染失败，发生未知错误。'
+        }
+    }
+
     private async _renderGroupAnalysis(
         data: GroupAnalysisResult,
-        theme: 'light' | 'dark'
+        theme: 'light' | 'dark',
+        skin = this.config.skin || 'md3'
     ): Promise<Awaited<ReturnType<Context['puppeteer']['page']>>> {
         // 检查 puppeteer 是否可用
         if (!this.ctx.puppeteer) {
             throw new Error('Puppeteer service is not available.')
         }
 
-        const templatePath = this.getSkinPath('template_group.html')
+        const templatePath = this.getSkinPath('template_group.html', skin)
         const randomId = Math.random().toString(36).substring(2, 15)
-        const skin = this.config.skin || 'md3'
         const outTemplateHtmlPath = path.resolve(
             this.templateDir,
             skin,
@@ -225,7 +373,24 @@ export class RendererService extends Service {
                 data.activeHoursData || {},
                 skin
             ),
+            moodChart: generateMoodChart(data.moodTimeline, skin),
             goldenQuotes: formatGoldenQuotes(data.goldenQuotes || [], skin),
+            trend: formatTrend(data.trend, skin),
+            interactionGraph: formatInteractionGraph(
+                data.interactionGraph,
+                skin
+            ),
+            wordCloud: formatWordCloud(data.wordFrequency, skin),
+            contentMix: formatContentMix(
+                data.contentMix,
+                data.contentLeaders,
+                skin
+            ),
+            emojiLeaderboard: formatEmojiLeaderboard(
+                data.emojiLeaderboard,
+                skin
+            ),
+            sharedLinks: formatSharedLinks(data.sharedLinks, skin),
             theme,
             dynamicAvatarUrl: dynamicAvatarBase64
         })
@@ -268,6 +433,146 @@ export class RendererService extends Service {
         return page
     }
 
+    public async renderGroupOverview(
+        overview: GroupOverview,
+        config: Config
+    ): Promise<Buffer | string> {
+        try {
+            if (!this.ctx.puppeteer) {
+                throw new Error('Puppeteer service is not available.')
+            }
+
+            let theme = config.theme
+            if (theme === 'auto') {
+                const hour = new Date().getHours()
+                theme = hour >= 19 || hour < 6 ? 'dark' : 'light'
+            }
+
+            const skin = config.skin || 'md3'
+            const templatePath = this.getSkinPath(
+                'template_overview.html',
+                skin
+            )
+            const randomId = Math.random().toString(36).substring(2, 15)
+            const outTemplateHtmlPath = path.resolve(
+                this.templateDir,
+                skin,
+                `${randomId}.html`
+            )
+
+            const ranking = (metric: GroupRankingMetric) =>
+                formatGroupRanking(
+                    rankGroupOverview(
+                        overview.groups,
+                        metric,
+                        config.overviewMaxGroups
+                    ),
+                    metric,
+                    skin
+                )
+
+            // Colors follow the most active member of the busiest group
+            const busiest = rankGroupOverview(overview.groups, 'messages', 1)[0]
+            const dynamicAvatarBase64 = await this.imageToBase64(
+                busiest?.mostActiveUser?.avatar ||
+                    'https://cravatar.cn/avatar/00000000000000000000000000000000?d=mp'
+            )
+
+            const templateHtml = await fs.readFile(templatePath, 'utf-8')
+            const filledHtml = renderTemplate(templateHtml, {
+                analysisDate: overview.analysisDate,
+                days: overview.days.toString(),
+                groupCount: overview.groups.length.toString(),
+                totalMessages: overview.totalMessages.toString(),
+                totalParticipants: overview.totalParticipants.toString(),
+                messageRanking: ranking('messages'),
+                participantRanking: ranking('participants'),
+                growthRanking: ranking('growth'),
+                theme,
+                dynamicAvatarUrl: dynamicAvatarBase64
+            })
+
+            await fs.writeFile(outTemplateHtmlPath, filledHtml)
+
+            const page = await this.ctx.puppeteer.page()
+            await page.goto('file://' + outTemplateHtmlPath, {
+                waitUntil: 'domcontentloaded'
+            })
+            await page.evaluate(() => document.fonts.ready)
+
+            this.ctx.setTimeout(
+                async () => {
+                    try {
+                        await fs.unlink(outTemplateHtmlPath)
+                    } catch (error) {
+                        this.ctx.logger.warn(`删除临时文件失败: ${error}`)
+                    }
+                },
+                3 * 60 * 1000
+            )
+
+            const selector = skinRegistry.getSafe(skin).containerSelector
+            const element = await page.$(selector)
+            if (!element) {
+                await page.close()
+                throw new Error(`无法在渲染的 HTML 中找到 ${selector} 元素。`)
+            }
+
+            const imageBuffer = await element.screenshot()
+            await page.close()
+
+            this.ctx.logger.info('总览图片渲染成功！')
+            return imageBuffer
+        } catch (error) {
+            this.ctx.logger.error('渲染总览图片时发生错误:', error)
+            if (error instanceof Error) {
+                return `图片渲染失败: ${error.message}`
+            }
+            return '图片渲染失败，发生未知错误。'
+        }
+    }
+
+    public async renderSearchResult(
+        result: MessageSearchResult,
+        config: Config
+    ): Promise<Buffer | string> {
+        try {
+            if (!this.ctx.puppeteer) {
+                throw new Error('Puppeteer service is not available.')
+            }
+
+            let theme = config.theme
+            if (theme === 'auto') {
+                const hour = new Date().getHours()
+                theme = hour >= 19 || hour < 6 ? 'dark' : 'light'
+            }
+
+            // Search results use one self-contained layout for every skin
+            const page = await this.ctx.puppeteer.page()
+            await page.setContent(formatSearchResultHtml(result, theme), {
+                waitUntil: 'domcontentloaded'
+            })
+            await page.evaluate(() => document.fonts.ready)
+
+            const element = await page.$('.container')
+            if (!element) {
+                await page.close()
+                throw new Error('无法在渲染的 HTML 中找到 .container 元素。')
+            }
+
+            const imageBuffer = await element.screenshot()
+            await page.close()
+
+            return imageBuffer
+        } catch (error) {
+            this.ctx.logger.error('渲染搜索结果图片时发生错误:', error)
+            if (error instanceof Error) {
+                return `图片渲染失败: ${error.message}`
+            }
+            return '图片渲染失败，发生未知错误。'
+        }
+    }
+
     public async renderUserPersona(
         data: UserPersonaProfile,
         username: string,
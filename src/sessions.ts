@@ -0,0 +1,271 @@
+import { h } from 'koishi'
+import { ConversationSession, StoredMessage, SummaryTopic } from './types'
+import { formatTimeRange } from './skins'
+import { extractMessageMetadata } from './utils'
+
+// A busy group may never go quiet, so long sessions are cut off
+const MAX_SESSION_MESSAGES = 300
+
+const SESSION_HEADER_PREFIX = '【会话 #'
+
+/**
+ * Group messages into conversation sessions. A message joins, in order:
+ * the session of the message it replies to, the open session of the member
+ * it mentions, the sender's own open session, or the latest open session.
+ * Otherwise it starts a new one. The result only depends on the input.
+ * @param messages Messages of the analyzed window
+ * @param gapMinutes Sessions without messages for longer than this are closed
+ * @returns Sessions numbered by start time
+ */
+export function segmentConversations(
+    messages: StoredMessage[],
+    gapMinutes: number
+): ConversationSession[] {
+    const gapMs = gapMinutes * 60 * 1000
+    const sessions: { messages: StoredMessage[]; last: number }[] = []
+    const sessionByMessageId = new Map<string, number>()
+    const sessionByUser = new Map<string, number>()
+
+    const sorted = [...messages].sort(
+        (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+    )
+
+    for (const message of sorted) {
+        const time = message.timestamp.getTime()
+        const isOpen = (index: number | undefined) =>
+            index !== undefined &&
+            sessions[index].messages.length < MAX_SESSION_MESSAGES &&
+            time - sessions[index].last <= gapMs
+
+        const metadata = extractMessageMetadata(
+            message.elements ?? h.parse(message.content)
+        )
+        const quoteId = message.quoteId ?? metadata.quoteId
+        const mentioned = message.mentionedUserIds?.length
+            ? message.mentionedUserIds
+            : metadata.mentionedUserIds
+
+        // Replying to an older message picks its conversation back up
+        let index = quoteId ? sessionByMessageId.get(quoteId) : undefined
+        if (
+            index !== undefined &&
+            sessions[index].messages.length >= MAX_SESSION_MESSAGES
+        ) {
+            index = undefined
+        }
+
+        if (index === undefined) {
+            index = mentioned
+                .map((userId) => sessionByUser.get(userId))
+                .filter(isOpen)
+                .sort((a, b) => sessions[b].last - sessions[a].last)[0]
+        }
+
+        const own = sessionByUser.get(String(message.userId))
+        if (index === undefined && isOpen(own)) index = own
+
+        if (index === undefined) {
+            // The last created session is not always the latest active one
+            index = sessions
+                .map((_, i) => i)
+                .filter(isOpen)
+                .sort((a, b) => sessions[b].last - sessions[a].last)[0]
+        }
+
+        if (index === undefined) {
+            sessions.push({ messages: [], last: time })
+            index = sessions.length - 1
+        }
+
+        const session = sessions[index]
+        session.messages.push(message)
+        session.last = Math.max(session.last, time)
+        if (message.messageId) sessionByMessageId.set(message.messageId, index)
+        sessionByUser.set(String(message.userId), index)
+    }
+
+    return sessions.map(({ messages }, index) => {
+        const participants = new Map<
+            string,
+            ConversationSession['participants'][number]
+        >()
+        for (const message of messages) {
+            const userId = String(message.userId)
+            const participant = participants.get(userId) ?? {
+                userId,
+                nickname: message.username,
+                messageCount: 0
+            }
+            participant.messageCount++
+            participants.set(userId, participant)
+        }
+
+        return {
+            index: index + 1,
+            start: messages[0].timestamp,
+            end: messages[messages.length - 1].timestamp,
+            messages,
+            participants: Array.from(participants.values()).sort(
+                (a, b) => b.messageCount - a.messageCount
+            )
+        }
+    })
+}
+
+function getMessageText(message: StoredMessage) {
+    return h
+        .select(message.elements ?? h.parse(message.content), 'text')
+        .map((element) => element.attrs.content)
+        .join('')
+        .trim()
+}
+
+/**
+ * Format sessions as prompt lines, each session led by a header line with
+ * its number, time range, size and members
+ * @param sessions Sessions from segmentConversations
+ * @returns The lines of each session, sessions without text are left out
+ */
+export function formatSessionsForPrompt(
+    sessions: ConversationSession[]
+): string[][] {
+    return sessions.flatMap((session) => {
+        const lines = session.messages
+            .map((message) => ({ message, text: getMessageText(message) }))
+            .filter(({ text }) => text)
+            .map(
+                ({ message, text }) =>
+                    `${message.username}(${message.userId}): ${text}`
+            )
+        if (!lines.length) return []
+
+        const names = session.participants
+            .slice(0, 8)
+            .map((participant) => participant.nickname)
+            .join(', ')
+        const more =
+            session.participants.length > 8
+                ? ` 等 ${session.participants.length} 人`
+                : ''
+        const range = formatTimeRange(session.start, session.end)
+
+        return [
+            [
+                `${SESSION_HEADER_PREFIX}${session.index} | ${range} | ` +
+                    `${session.messages.length} 条消息 | 参与者: ${names}${more}】`,
+                ...lines
+            ]
+        ]
+    })
+}
+
+/**
+ * Repeat the session header at the top of a chunk that starts in the middle
+ * of a session, so the model still knows where the lines belong. Chunks
+ * without session headers are returned as they are.
+ * @param chunks Chunks of the lines from formatSessionsForPrompt
+ */
+export function repeatSessionHeaders(chunks: string[][]): string[][] {
+    let header: string | undefined
+
+    return chunks.map((chunk) => {
+        const result =
+            header && !chunk[0]?.startsWith(SESSION_HEADER_PREFIX)
+                ? [header.replace(/】$/, ' | 续】'), ...chunk]
+                : chunk
+        header =
+            [...chunk]
+                .reverse()
+                .find((line) => line.startsWith(SESSION_HEADER_PREFIX)) ??
+            header
+        return result
+    })
+}
+
+// Contributors are written as "nickname (userId)", a bare nickname when the
+// model leaves the id out
+function matchesParticipant(
+    contributor: string,
+    participant: ConversationSession['participants'][number]
+) {
+    const match = contributor.match(/[(（]\s*([^()（）]+?)\s*[)）]\s*$/)
+    if (match) return match[1] === participant.userId
+    return contributor.trim() === participant.nickname
+}
+
+function toSessionNumbers(value: unknown): number[] {
+    const values = Array.isArray(value) ? value : [value]
+    return values.map(Number).filter((number) => Number.isInteger(number))
+}
+
+/**
+ * Fill in the time range, size and members of the sessions each topic came
+ * from. Topics without a valid session number, e.g. from a custom prompt,
+ * fall back to the session most of their contributors took part in.
+ * @param topics Topics as returned by the model, with a `session` field
+ * @param sessions Sessions the prompt was built from
+ */
+export function attachTopicSessions(
+    topics: SummaryTopic[],
+    sessions: ConversationSession[]
+): SummaryTopic[] {
+    return topics.map((topic) => {
+        const { session, ...rest } = topic as SummaryTopic & {
+            session?: unknown
+        }
+
+        let matched = toSessionNumbers(session)
+            .map((number) => sessions[number - 1])
+            .filter(Boolean)
+
+        if (!matched.length) {
+            const scored = sessions
+                .map((candidate) => ({
+                    candidate,
+                    score: (topic.contributors ?? []).filter((contributor) =>
+                        candidate.participants.some((participant) =>
+                            matchesParticipant(contributor, participant)
+                        )
+                    ).length
+                }))
+                .filter(({ score }) => score > 0)
+                .sort(
+                    (a, b) =>
+                        b.score - a.score ||
+                        b.candidate.messages.length -
+                            a.candidate.messages.length
+                )
+            matched = scored.length ? [scored[0].candidate] : []
+        }
+
+        if (!matched.length) return rest
+
+        const participants = new Map<string, number>()
+        for (const { participants: members } of matched) {
+            for (const member of members) {
+                participants.set(
+                    member.nickname,
+                    (participants.get(member.nickname) ?? 0) +
+                        member.messageCount
+                )
+            }
+        }
+
+        return {
+            ...rest,
+            startTime: new Date(
+                Math.min(...matched.map((item) => item.start.getTime()))
+            ),
+            endTime: new Date(
+                Math.max(...matched.map((item) => item.end.getTime()))
+            ),
+            messageCount: matched.reduce(
+                (sum, item) => sum + item.messages.length,
+                0
+            ),
+            participants: Array.from(participants.entries())
+                .sort((a, b) => b[1] - a[1])
+                .map(([nickname]) => nickname)
+        }
+    })
+}
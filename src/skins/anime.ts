@@ -1,5 +1,31 @@
-import { getAvatarUrl, SkinRenderer } from './types'
-import { GroupAnalysisResult, UserStats } from '../types'
+import {
+    CONTENT_TYPE_LABELS,
+    formatMoodScore,
+    formatMoodTime,
+    formatSignedNumber,
+    formatSignedPercent,
+    formatTopicContinuity,
+    formatTopicSession,
+    formatTrendSample,
+    getAvatarUrl,
+    getContentMixItems,
+    getMoodLabel,
+    getStickerLabel,
+    groupLinksByDomain,
+    layoutGroupRanking,
+    layoutInteractionGraph,
+    layoutMoodChart,
+    layoutWordCloud,
+    SkinRenderer
+} from './types'
+import {
+    GroupAnalysisResult,
+    GroupOverviewEntry,
+    GroupRankingMetric,
+    InteractionMember,
+    MemberTrend,
+    UserStats
+} from '../types'
 
 /**
  * Anime skin renderer (Updated to Nahida/Sumeru Style 3.0)
@@ -90,8 +116,9 @@ export class AnimeSkinRenderer implements SkinRenderer {
                 (topic) => `
              <div class="bubble">
                <div style="font-weight:bold; color:var(--color-primary); margin-bottom:4px; font-size:18px;"># ${topic.topic}</div>
+               ${topic.continuity ? `<div class="topic-continuity">${formatTopicContinuity(topic.continuity)}</div>` : ''}
                <div class="bubble-text" style="font-size: 14px;">${topic.detail}</div>
-               <div class="bubble-meta">参与者: ${topic.contributors.join(', ')}</div>
+               <div class="bubble-meta">参与者: ${topic.contributors.join(', ')}${topic.startTime ? ` · ${formatTopicSession(topic)}` : ''}</div>
              </div>
            `
             )
@@ -125,6 +152,383 @@ export class AnimeSkinRenderer implements SkinRenderer {
             `
     }
 
+    generateMoodChart(mood: GroupAnalysisResult['moodTimeline']): string {
+        if (!mood) {
+            return '<div class="empty-state">还没有感受到大家的心情哦</div>'
+        }
+
+        // Each half of `.mood-chart-container` is 80px tall
+        const bars = layoutMoodChart(mood, 76)
+            .map(
+                (bar) => `
+                    <div class="mood-bar" title="${bar.hour}:00 - 心情 ${formatMoodScore(bar.score)} (${bar.messageCount} 条消息)">
+                        <div class="mood-bar-half mood-bar-upper">
+                            ${bar.tone === 'positive' ? `<div class="mood-bar-fill mood-positive" style="height: ${bar.height}px;"></div>` : ''}
+                        </div>
+                        <div class="mood-bar-half mood-bar-lower">
+                            ${bar.tone === 'negative' ? `<div class="mood-bar-fill mood-negative" style="height: ${bar.height}px;"></div>` : ''}
+                        </div>
+                        <span class="chart-label">${String(bar.hour).padStart(2, '0')}</span>
+                    </div>`
+            )
+            .join('')
+        const moments = [
+            ...mood.positive.map((moment) => ({
+                moment,
+                title: '最开心的一刻'
+            })),
+            ...mood.negative.map((moment) => ({
+                moment,
+                title: '最紧张的一刻'
+            }))
+        ]
+
+        return `
+                <div class="mood-chart-container">${bars}</div>
+                <div class="mood-overall">整体心情: ${getMoodLabel(mood.overall)} (${formatMoodScore(mood.overall)})</div>
+                ${
+                    moments.length
+                        ? `<div class="bubble-container">
+                    ${moments
+                        .map(
+                            ({ moment, title }) => `
+                    <div class="bubble mood-moment mood-${moment.score > 0 ? 'positive' : 'negative'}">
+                        <div class="mood-moment-title">${title}</div>
+                        <div class="bubble-text">${moment.content}</div>
+                        <div class="bubble-meta">${moment.nickname} · ${formatMoodTime(moment.timestamp)} · ${formatMoodScore(moment.score)}</div>
+                    </div>`
+                        )
+                        .join('')}
+                </div>`
+                        : ''
+                }
+            `
+    }
+
+    formatTrend(trend: GroupAnalysisResult['trend']): string {
+        if (!trend || trend.previousMessages === 0) {
+            return '<div class="empty-state">暂无上一周期数据，无法进行环比对比</div>'
+        }
+
+        const formatMembers = (members: MemberTrend[], withDelta = false) =>
+            members.length === 0
+                ? '<span class="bubble-text">无</span>'
+                : members
+                      .map(
+                          (member) =>
+                              `<span class="tag">${member.nickname}${withDelta ? ` ${formatSignedNumber(member.delta)}` : ''}</span>`
+                      )
+                      .join('')
+
+        const deltaClass = (value: number) =>
+            value > 0 ? 'trend-up' : value < 0 ? 'trend-down' : ''
+
+        const groups = [
+            { title: '新面孔', members: formatMembers(trend.newMembers) },
+            { title: '潜水了', members: formatMembers(trend.quietMembers) },
+            {
+                title: '活跃上升',
+                members: formatMembers(trend.risingMembers, true)
+            },
+            {
+                title: '活跃下降',
+                members: formatMembers(trend.fallingMembers, true)
+            }
+        ]
+
+        return `
+            <div class="grid-4">
+                <div class="stat-sticker">
+                    <div class="label">消息环比</div>
+                    <div class="value ${deltaClass(trend.messageDelta)}">${formatSignedPercent(trend.messageDeltaRatio)}</div>
+                </div>
+                <div class="stat-sticker">
+                    <div class="label">上期消息</div>
+                    <div class="value">${trend.previousMessages}</div>
+                </div>
+                <div class="stat-sticker">
+                    <div class="label">人数变化</div>
+                    <div class="value ${deltaClass(trend.participantDelta)}">${formatSignedNumber(trend.participantDelta)}</div>
+                </div>
+                <div class="stat-sticker">
+                    <div class="label">上期活跃时段</div>
+                    <div class="value">${trend.previousMostActivePeriod}</div>
+                </div>
+            </div>
+            <div class="grid-2 trend-groups">
+                ${groups
+                    .map(
+                        (group) => `
+                <div class="bubble">
+                    <div style="font-weight:bold; color:var(--color-primary); margin-bottom:8px; font-size:18px;"># ${group.title}</div>
+                    <div class="tag-container" style="justify-content:flex-start;">${group.members}</div>
+                </div>
+                `
+                    )
+                    .join('')}
+            </div>
+            <div class="bubble-meta">对比周期: ${trend.previousStart} ~ ${trend.previousEnd}${formatTrendSample(trend)}</div>
+        `
+    }
+
+    formatInteractionGraph(
+        graph: GroupAnalysisResult['interactionGraph']
+    ): string {
+        if (!graph || graph.edges.length === 0) {
+            return '<div class="empty-state">本次群友之间暂无回复或@互动</div>'
+        }
+
+        const layout = layoutInteractionGraph(graph)
+        const formatMembers = (
+            members: InteractionMember[],
+            describe: (member: InteractionMember) => string
+        ) =>
+            members.length === 0
+                ? '<span class="bubble-text">无</span>'
+                : members
+                      .map(
+                          (member) =>
+                              `<span class="tag">${member.nickname} · ${describe(member)}</span>`
+                      )
+                      .join('')
+
+        const pairs = graph.edges
+            .slice(0, 5)
+            .map(
+                (edge) =>
+                    `<div class="bubble-text">💞 ${edge.sourceName} ⇄ ${edge.targetName} · ${edge.weight} 次（回复 ${edge.replies} / @ ${edge.mentions}）</div>`
+            )
+            .join('')
+
+        return `
+            <div class="bubble interaction-graph">
+                <svg viewBox="0 0 ${layout.size} ${layout.size}" xmlns="http://www.w3.org/2000/svg">
+                    ${layout.edges
+                        .map(
+                            (edge) =>
+                                `<line class="graph-edge" x1="${edge.x1}" y1="${edge.y1}" x2="${edge.x2}" y2="${edge.y2}" stroke-width="${edge.strokeWidth}" />`
+                        )
+                        .join('')}
+                    ${layout.nodes
+                        .map(
+                            (node) => `
+                    <circle class="graph-node" cx="${node.x}" cy="${node.y}" r="${node.r}" />
+                    <text class="graph-label" x="${node.labelX}" y="${node.labelY}" text-anchor="${node.anchor}">${node.label}</text>`
+                        )
+                        .join('')}
+                </svg>
+                <div class="bubble-meta">共 ${graph.totalInteractions} 次回复 / @ 互动</div>
+            </div>
+            <div class="bubble-container" style="margin-top:16px;">
+                <div class="bubble">
+                    <div style="font-weight:bold; color:var(--color-primary); margin-bottom:8px; font-size:18px;"># 最强羁绊</div>
+                    ${pairs}
+                </div>
+            </div>
+            <div class="grid-2" style="margin-top:16px;">
+                <div class="bubble">
+                    <div style="font-weight:bold; color:var(--color-primary); margin-bottom:8px; font-size:18px;"># 社交中心</div>
+                    <div class="tag-container" style="justify-content:flex-start;">${formatMembers(graph.centralMembers, (m) => `${m.partners} 位好友`)}</div>
+                </div>
+                <div class="bubble">
+                    <div style="font-weight:bold; color:var(--color-primary); margin-bottom:8px; font-size:18px;"># 独行侠</div>
+                    <div class="tag-container" style="justify-content:flex-start;">${formatMembers(graph.isolatedMembers, (m) => `${m.messageCount} 条发言`)}</div>
+                </div>
+            </div>
+        `
+    }
+
+    formatWordCloud(frequency: GroupAnalysisResult['wordFrequency']): string {
+        if (!frequency || frequency.terms.length === 0) {
+            return '<div class="empty-state">本次聊天内容太少，暂无热词</div>'
+        }
+
+        const layout = layoutWordCloud(frequency.terms)
+        const phrases = frequency.phrases
+            .slice(0, 8)
+            .map(
+                (phrase) =>
+                    `<span class="tag">${phrase.word} · ${phrase.count}</span>`
+            )
+            .join('')
+
+        return `
+            <div class="bubble word-cloud">
+                <svg viewBox="0 0 ${layout.width} ${layout.height}" xmlns="http://www.w3.org/2000/svg">
+                    ${layout.words
+                        .map(
+                            (word) =>
+                                `<text class="cloud-word cloud-word-${word.colorIndex}" x="${word.x}" y="${word.y}" ` +
+                                `font-size="${word.fontSize}" text-anchor="middle">${word.word}</text>`
+                        )
+                        .join('')}
+                </svg>
+                <div class="bubble-meta">共 ${frequency.totalTokens} 个词</div>
+            </div>
+            ${
+                phrases
+                    ? `<div class="bubble" style="margin-top:16px;">
+                <div style="font-weight:bold; color:var(--color-primary); margin-bottom:8px; font-size:18px;"># 高频短语</div>
+                <div class="tag-container" style="justify-content:flex-start;">${phrases}</div>
+            </div>`
+                    : ''
+            }
+        `
+    }
+
+    formatContentMix(
+        mix: GroupAnalysisResult['contentMix'],
+        leaders: GroupAnalysisResult['contentLeaders']
+    ): string {
+        const items = mix ? getContentMixItems(mix) : []
+        if (items.length === 0) {
+            return '<div class="empty-state">暂无内容统计</div>'
+        }
+
+        const leaderTags = (leaders ?? [])
+            .map(
+                (leader) =>
+                    `<span class="tag">${CONTENT_TYPE_LABELS[leader.type]}最多 · ${leader.nickname} · ${leader.count}</span>`
+            )
+            .join('')
+
+        return `
+            <div class="bubble content-mix">
+                <div class="mix-bar">
+                    ${items
+                        .map(
+                            (item, index) =>
+                                `<div class="mix-segment mix-color-${index % 6}" style="width: ${(item.ratio * 100).toFixed(1)}%"></div>`
+                        )
+                        .join('')}
+                </div>
+                <div class="mix-legend">
+                    ${items
+                        .map(
+                            (item, index) =>
+                                `<div class="mix-item"><span class="mix-dot mix-color-${index % 6}"></span>` +
+                                `${item.label} · ${item.count}（${Math.round(item.ratio * 100)}%）</div>`
+                        )
+                        .join('')}
+                </div>
+            </div>
+            ${
+                leaderTags
+                    ? `<div class="bubble" style="margin-top:16px;">
+                <div style="font-weight:bold; color:var(--color-primary); margin-bottom:8px; font-size:18px;"># 媒体之最</div>
+                <div class="tag-container" style="justify-content:flex-start;">${leaderTags}</div>
+            </div>`
+                    : ''
+            }
+        `
+    }
+
+    formatEmojiLeaderboard(
+        board: GroupAnalysisResult['emojiLeaderboard']
+    ): string {
+        if (!board || board.totalFaces + board.totalStickers === 0) {
+            return '<div class="empty-state">这次大家都没有发表情呢</div>'
+        }
+
+        const faces = board.faces
+            .map(
+                (face) => `<span class="tag">${face.name} ×${face.count}</span>`
+            )
+            .join('')
+        const stickers = board.stickers
+            .map(
+                (sticker) => `
+                <div class="sticker-item">
+                    ${
+                        sticker.url
+                            ? `<img class="sticker-image" src="${sticker.url}" alt="${getStickerLabel(sticker)}" />`
+                            : `<div class="sticker-placeholder">${getStickerLabel(sticker)}</div>`
+                    }
+                    <div class="sticker-count">×${sticker.count} · ${sticker.userCount} 人</div>
+                </div>`
+            )
+            .join('')
+        const king = board.topStickerUser
+
+        return `
+            <div class="bubble emoji-board">
+                <div class="emoji-summary">小黄脸 ${board.totalFaces} 次 · 表情包 ${board.totalStickers} 张</div>
+                ${stickers ? `<div class="sticker-grid">${stickers}</div>` : ''}
+                ${faces ? `<div class="tag-container" style="justify-content:flex-start;">${faces}</div>` : ''}
+            </div>
+            ${
+                king
+                    ? `<div class="bubble" style="margin-top:16px;">
+                <div style="font-weight:bold; color:var(--color-primary); margin-bottom:8px; font-size:18px;"># 表情包之王</div>
+                <div class="bubble-text">${king.nickname} 共发送 ${king.count} 张表情包</div>
+            </div>`
+                    : ''
+            }
+        `
+    }
+
+    formatSharedLinks(links: GroupAnalysisResult['sharedLinks']): string {
+        if (!links || links.length === 0) {
+            return '<div class="empty-state">这次没有人分享链接哦</div>'
+        }
+
+        return `
+            <div class="bubble-container">
+                ${groupLinksByDomain(links)
+                    .map(
+                        (group) => `
+                <div class="bubble link-domain">
+                    <div class="link-domain-title"># ${group.domain} <span class="link-domain-count">${group.links.length} 条</span></div>
+                    ${group.links
+                        .map(
+                            (link) => `
+                    <div class="link-item">
+                        <div class="link-title">${link.title || link.url}</div>
+                        ${link.title ? `<div class="link-url">${link.url}</div>` : ''}
+                        ${link.note ? `<div class="bubble-text">${link.note}</div>` : ''}
+                        <div class="bubble-meta">${link.nickname} 分享${link.shareCount > 1 ? ` · 共 ${link.shareCount} 次` : ''}</div>
+                    </div>`
+                        )
+                        .join('')}
+                </div>`
+                    )
+                    .join('')}
+            </div>
+        `
+    }
+
+    formatGroupRanking(
+        groups: GroupOverviewEntry[],
+        metric: GroupRankingMetric
+    ): string {
+        if (groups.length === 0) {
+            return '<div class="empty-state">暂无可排行的群</div>'
+        }
+
+        return `
+            <div class="bubble group-ranking">
+                ${layoutGroupRanking(groups, metric)
+                    .map(
+                        (row) => `
+                <div class="ranking-row">
+                    <div class="ranking-rank rank-${row.rank}">${row.rank}</div>
+                    <div class="ranking-body">
+                        <div class="ranking-header">
+                            <span class="ranking-name">${row.groupName}</span>
+                            <span class="ranking-value${metric === 'growth' ? ` trend-${row.trend}` : ''}">${row.value}</span>
+                        </div>
+                        <div class="ranking-bar">
+                            <div class="ranking-bar-fill" style="width: ${(row.ratio * 100).toFixed(1)}%"></div>
+                        </div>
+                        <div class="ranking-detail">${row.detail}</div>
+                    </div>
+                </div>`
+                    )
+                    .join('')}
+            </div>
+        `
+    }
+
     formatTags(tags: string[] | undefined): string {
         if (!tags || tags.length === 0) {
             return '<div class="empty-state">暂无数据</div>'
@@ -1,5 +1,31 @@
-import { getAvatarUrl, SkinRenderer } from './types'
-import { GroupAnalysisResult, UserStats } from '../types'
+import {
+    CONTENT_TYPE_LABELS,
+    formatMoodScore,
+    formatMoodTime,
+    formatSignedNumber,
+    formatSignedPercent,
+    formatTopicContinuity,
+    formatTopicSession,
+    formatTrendSample,
+    getAvatarUrl,
+    getContentMixItems,
+    getMoodLabel,
+    getStickerLabel,
+    groupLinksByDomain,
+    layoutGroupRanking,
+    layoutInteractionGraph,
+    layoutMoodChart,
+    layoutWordCloud,
+    SkinRenderer
+} from './types'
+import {
+    GroupAnalysisResult,
+    GroupOverviewEntry,
+    GroupRankingMetric,
+    InteractionMember,
+    MemberTrend,
+    UserStats
+} from '../types'
 
 /**
  * Art Style Skin Renderer
@@ -86,7 +112,9 @@ export class ArtSkinRenderer implements SkinRenderer {
                 (topic) => `
          <div class="topic-card">
            <div class="topic-title">${topic.topic}</div>
+           ${topic.continuity ? `<div class="topic-continuity">${formatTopicContinuity(topic.continuity)}</div>` : ''}
            <div class="topic-contributors">CONTRIBUTORS: ${topic.contributors.join(', ')}</div>
+           ${topic.startTime ? `<div class="topic-session">${formatTopicSession(topic)}</div>` : ''}
            <p class="topic-detail">${topic.detail}</p>
          </div>
        `
@@ -140,6 +168,374 @@ export class ArtSkinRenderer implements SkinRenderer {
         `
     }
 
+    generateMoodChart(mood: GroupAnalysisResult['moodTimeline']): string {
+        if (!mood) {
+            return '<div class="empty-state">暂无情绪数据</div>'
+        }
+
+        // Each half of `.mood-chart` is 80px tall
+        const bars = layoutMoodChart(mood, 76)
+            .map(
+                (bar) => `
+                <div class="mood-bar" title="${bar.hour}:00 - ${formatMoodScore(bar.score)} (${bar.messageCount} messages)">
+                    <div class="mood-bar-half mood-bar-upper">
+                        ${bar.tone === 'positive' ? `<div class="mood-bar-fill mood-positive" style="height: ${bar.height}px;"></div>` : ''}
+                    </div>
+                    <div class="mood-bar-half mood-bar-lower">
+                        ${bar.tone === 'negative' ? `<div class="mood-bar-fill mood-negative" style="height: ${bar.height}px;"></div>` : ''}
+                    </div>
+                    <span class="mood-bar-label">${String(bar.hour).padStart(2, '0')}</span>
+                </div>`
+            )
+            .join('')
+        const moments = (
+            title: string,
+            tone: string,
+            items: typeof mood.positive
+        ) =>
+            items.length
+                ? `<div class="topic-card mood-moments">
+                <div class="topic-title">${title}</div>
+                ${items
+                    .map(
+                        (moment) => `
+                <div class="mood-moment mood-${tone}">
+                    <div class="mood-moment-meta">${moment.nickname} / ${formatMoodTime(moment.timestamp)} / ${formatMoodScore(moment.score)}</div>
+                    <p class="topic-detail">${moment.content}</p>
+                </div>`
+                    )
+                    .join('')}
+            </div>`
+                : ''
+
+        return `
+            <div class="activity-chart-container">
+                <div class="mood-chart">${bars}</div>
+                <div class="chart-legend">
+                    OVERALL MOOD: ${getMoodLabel(mood.overall)} (${formatMoodScore(mood.overall)})
+                </div>
+            </div>
+            ${moments('最欢乐的时刻', 'positive', mood.positive)}
+            ${moments('最紧张的时刻', 'negative', mood.negative)}
+        `
+    }
+
+    formatTrend(trend: GroupAnalysisResult['trend']): string {
+        if (!trend || trend.previousMessages === 0) {
+            return '<div class="empty-state">暂无上一周期数据，无法进行环比对比</div>'
+        }
+
+        const formatMembers = (members: MemberTrend[], withDelta = false) =>
+            members.length === 0
+                ? '<span class="trend-empty">—</span>'
+                : members
+                      .map(
+                          (member) =>
+                              `<div class="tag">${member.nickname}${withDelta ? ` ${formatSignedNumber(member.delta)}` : ''}</div>`
+                      )
+                      .join('')
+
+        const arrow = (value: number) =>
+            value > 0 ? '▲ ' : value < 0 ? '▼ ' : ''
+
+        return `
+            <div class="summary">
+                <div class="summary-item">
+                    <div class="label">消息环比</div>
+                    <div class="value">${arrow(trend.messageDelta)}${formatSignedPercent(trend.messageDeltaRatio)}</div>
+                </div>
+                <div class="summary-item">
+                    <div class="label">上期消息</div>
+                    <div class="value">${trend.previousMessages}</div>
+                </div>
+                <div class="summary-item">
+                    <div class="label">人数变化</div>
+                    <div class="value">${arrow(trend.participantDelta)}${formatSignedNumber(trend.participantDelta)}</div>
+                </div>
+                <div class="summary-item">
+                    <div class="label">上期高峰</div>
+                    <div class="value">${trend.previousMostActivePeriod}</div>
+                </div>
+            </div>
+            <div class="trend-period">PREVIOUS: ${trend.previousStart} ~ ${trend.previousEnd}${formatTrendSample(trend)}</div>
+            <div class="card-grid two-columns">
+                <div class="topic-card">
+                    <div class="topic-title">新面孔</div>
+                    <div class="tag-container">${formatMembers(trend.newMembers)}</div>
+                </div>
+                <div class="topic-card">
+                    <div class="topic-title">潜水了</div>
+                    <div class="tag-container">${formatMembers(trend.quietMembers)}</div>
+                </div>
+                <div class="topic-card">
+                    <div class="topic-title">活跃上升</div>
+                    <div class="tag-container">${formatMembers(trend.risingMembers, true)}</div>
+                </div>
+                <div class="topic-card">
+                    <div class="topic-title">活跃下降</div>
+                    <div class="tag-container">${formatMembers(trend.fallingMembers, true)}</div>
+                </div>
+            </div>
+        `
+    }
+
+    formatInteractionGraph(
+        graph: GroupAnalysisResult['interactionGraph']
+    ): string {
+        if (!graph || graph.edges.length === 0) {
+            return '<div class="empty-state">本次群友之间暂无回复或@互动</div>'
+        }
+
+        const layout = layoutInteractionGraph(graph)
+        const formatMembers = (
+            members: InteractionMember[],
+            describe: (member: InteractionMember) => string
+        ) =>
+            members.length === 0
+                ? '<span class="trend-empty">—</span>'
+                : members
+                      .map(
+                          (member) =>
+                              `<div class="tag">${member.nickname} · ${describe(member)}</div>`
+                      )
+                      .join('')
+
+        const pairs = graph.edges
+            .slice(0, 5)
+            .map(
+                (edge) =>
+                    `<p class="topic-detail">${edge.sourceName} ⇄ ${edge.targetName} · ${edge.weight} 次（回复 ${edge.replies} / @ ${edge.mentions}）</p>`
+            )
+            .join('')
+
+        return `
+            <div class="interaction-graph">
+                <svg viewBox="0 0 ${layout.size} ${layout.size}" xmlns="http://www.w3.org/2000/svg">
+                    ${layout.edges
+                        .map(
+                            (edge) =>
+                                `<line class="graph-edge" x1="${edge.x1}" y1="${edge.y1}" x2="${edge.x2}" y2="${edge.y2}" stroke-width="${edge.strokeWidth}" />`
+                        )
+                        .join('')}
+                    ${layout.nodes
+                        .map(
+                            (node) => `
+                    <circle class="graph-node" cx="${node.x}" cy="${node.y}" r="${node.r}" />
+                    <text class="graph-label" x="${node.labelX}" y="${node.labelY}" text-anchor="${node.anchor}">${node.label}</text>`
+                        )
+                        .join('')}
+                </svg>
+            </div>
+            <div class="card-grid">
+                <div class="topic-card">
+                    <div class="topic-title">最强羁绊</div>
+                    ${pairs}
+                </div>
+            </div>
+            <div class="card-grid two-columns">
+                <div class="topic-card">
+                    <div class="topic-title">社交中心</div>
+                    <div class="tag-container">${formatMembers(graph.centralMembers, (member) => `${member.partners} 位互动对象`)}</div>
+                </div>
+                <div class="topic-card">
+                    <div class="topic-title">独行侠</div>
+                    <div class="tag-container">${formatMembers(graph.isolatedMembers, (member) => `${member.messageCount} 条发言`)}</div>
+                </div>
+            </div>
+        `
+    }
+
+    formatWordCloud(frequency: GroupAnalysisResult['wordFrequency']): string {
+        if (!frequency || frequency.terms.length === 0) {
+            return '<div class="empty-state">本次聊天内容太少，暂无热词</div>'
+        }
+
+        const layout = layoutWordCloud(frequency.terms)
+        const phrases = frequency.phrases
+            .slice(0, 8)
+            .map(
+                (phrase) =>
+                    `<div class="tag">${phrase.word} · ${phrase.count}</div>`
+            )
+            .join('')
+
+        return `
+            <div class="word-cloud">
+                <svg viewBox="0 0 ${layout.width} ${layout.height}" xmlns="http://www.w3.org/2000/svg">
+                    ${layout.words
+                        .map(
+                            (word) =>
+                                `<text class="cloud-word cloud-word-${word.colorIndex}" x="${word.x}" y="${word.y}" ` +
+                                `font-size="${word.fontSize}" text-anchor="middle">${word.word}</text>`
+                        )
+                        .join('')}
+                </svg>
+            </div>
+            ${
+                phrases
+                    ? `<div class="topic-card">
+                <div class="topic-title">高频短语</div>
+                <div class="tag-container">${phrases}</div>
+            </div>`
+                    : ''
+            }
+        `
+    }
+
+    formatContentMix(
+        mix: GroupAnalysisResult['contentMix'],
+        leaders: GroupAnalysisResult['contentLeaders']
+    ): string {
+        const items = mix ? getContentMixItems(mix) : []
+        if (items.length === 0) {
+            return '<div class="empty-state">暂无内容统计</div>'
+        }
+
+        const leaderTags = (leaders ?? [])
+            .map(
+                (leader) =>
+                    `<div class="tag">${CONTENT_TYPE_LABELS[leader.type]}最多 · ${leader.nickname} · ${leader.count}</div>`
+            )
+            .join('')
+
+        return `
+            <div class="content-mix">
+                <div class="mix-bar">
+                    ${items
+                        .map(
+                            (item, index) =>
+                                `<div class="mix-segment mix-color-${index % 6}" style="width: ${(item.ratio * 100).toFixed(1)}%"></div>`
+                        )
+                        .join('')}
+                </div>
+                <div class="mix-legend">
+                    ${items
+                        .map(
+                            (item, index) =>
+                                `<div class="mix-item"><span class="mix-dot mix-color-${index % 6}"></span>` +
+                                `${item.label} · ${item.count}（${Math.round(item.ratio * 100)}%）</div>`
+                        )
+                        .join('')}
+                </div>
+            </div>
+            ${
+                leaderTags
+                    ? `<div class="topic-card">
+                <div class="topic-title">媒体之最</div>
+                <div class="tag-container">${leaderTags}</div>
+            </div>`
+                    : ''
+            }
+        `
+    }
+
+    formatEmojiLeaderboard(
+        board: GroupAnalysisResult['emojiLeaderboard']
+    ): string {
+        if (!board || board.totalFaces + board.totalStickers === 0) {
+            return '<div class="empty-state">本次聊天没有人发表情</div>'
+        }
+
+        const faces = board.faces
+            .map(
+                (face) =>
+                    `<div class="tag">${face.name} <span class="emoji-count">×${face.count}</span></div>`
+            )
+            .join('')
+        const stickers = board.stickers
+            .map(
+                (sticker) => `
+                <div class="sticker-item">
+                    ${
+                        sticker.url
+                            ? `<img class="sticker-image" src="${sticker.url}" alt="${getStickerLabel(sticker)}" />`
+                            : `<div class="sticker-placeholder">${getStickerLabel(sticker)}</div>`
+                    }
+                    <div class="sticker-count">×${sticker.count} / ${sticker.userCount} 人</div>
+                </div>`
+            )
+            .join('')
+        const king = board.topStickerUser
+
+        return `
+            <div class="emoji-board">
+                <div class="emoji-summary">FACES ${board.totalFaces} / STICKERS ${board.totalStickers}</div>
+                ${stickers ? `<div class="sticker-grid">${stickers}</div>` : ''}
+                ${faces ? `<div class="tag-container">${faces}</div>` : ''}
+            </div>
+            ${
+                king
+                    ? `<div class="topic-card">
+                <div class="topic-title">表情包之王</div>
+                <p class="topic-detail">${king.nickname} 共发送 ${king.count} 张表情包</p>
+            </div>`
+                    : ''
+            }
+        `
+    }
+
+    formatSharedLinks(links: GroupAnalysisResult['sharedLinks']): string {
+        if (!links || links.length === 0) {
+            return '<div class="empty-state">本次没有人分享链接</div>'
+        }
+
+        return `
+            <div class="link-digest">
+                ${groupLinksByDomain(links)
+                    .map(
+                        (group) => `
+                <div class="link-domain">
+                    <div class="link-domain-title">${group.domain}<span class="link-domain-count">${group.links.length} 条</span></div>
+                    ${group.links
+                        .map(
+                            (link) => `
+                    <div class="link-item">
+                        <div class="link-title">${link.title || link.url}</div>
+                        ${link.title ? `<div class="link-url">${link.url}</div>` : ''}
+                        <div class="link-meta">${link.nickname} 分享${link.shareCount > 1 ? ` / 共 ${link.shareCount} 次` : ''}</div>
+                        ${link.note ? `<p class="link-note">${link.note}</p>` : ''}
+                    </div>`
+                        )
+                        .join('')}
+                </div>`
+                    )
+                    .join('')}
+            </div>
+        `
+    }
+
+    formatGroupRanking(
+        groups: GroupOverviewEntry[],
+        metric: GroupRankingMetric
+    ): string {
+        if (groups.length === 0) {
+            return '<div class="empty-state">暂无可排行的群</div>'
+        }
+
+        return `
+            <div class="group-ranking">
+                ${layoutGroupRanking(groups, metric)
+                    .map(
+                        (row) => `
+                <div class="ranking-row">
+                    <div class="ranking-rank rank-${row.rank}">${row.rank}</div>
+                    <div class="ranking-body">
+                        <div class="ranking-header">
+                            <span class="ranking-name">${row.groupName}</span>
+                            <span class="ranking-value${metric === 'growth' ? ` trend-${row.trend}` : ''}">${row.value}</span>
+                        </div>
+                        <div class="ranking-bar">
+                            <div class="ranking-bar-fill" style="width: ${(row.ratio * 100).toFixed(1)}%"></div>
+                        </div>
+                        <div class="ranking-detail">${row.detail}</div>
+                    </div>
+                </div>`
+                    )
+                    .join('')}
+            </div>
+        `
+    }
+
     formatTags(tags: string[] | undefined): string {
         if (!tags || tags.length === 0) {
             return '<div class="empty-state">暂无数据</div>'
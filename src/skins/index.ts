@@ -77,7 +77,27 @@ class SkinRegistry {
 export const skinRegistry = new SkinRegistry()
 
 // Re-export types and individual skins
-export { SkinRenderer, getAvatarUrl } from './types'
+export {
+    CONTENT_TYPE_LABELS,
+    SkinRenderer,
+    formatMoodScore,
+    formatMoodTime,
+    formatSignedNumber,
+    formatSignedPercent,
+    formatTimeRange,
+    formatTopicContinuity,
+    formatTopicSession,
+    formatTrendSample,
+    getAvatarUrl,
+    getContentMixItems,
+    getMoodLabel,
+    getStickerLabel,
+    groupLinksByDomain,
+    layoutGroupRanking,
+    layoutInteractionGraph,
+    layoutMoodChart,
+    layoutWordCloud
+} from './types'
 export { Md3SkinRenderer } from './md3'
 export { AnimeSkinRenderer } from './anime'
 export { NewspaperSkinRenderer } from './newspaper'
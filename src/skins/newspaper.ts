@@ -1,5 +1,31 @@
-import { getAvatarUrl, SkinRenderer } from './types'
-import { GroupAnalysisResult, UserStats } from '../types'
+import {
+    CONTENT_TYPE_LABELS,
+    formatMoodScore,
+    formatMoodTime,
+    formatSignedNumber,
+    formatSignedPercent,
+    formatTopicContinuity,
+    formatTopicSession,
+    formatTrendSample,
+    getAvatarUrl,
+    getContentMixItems,
+    getMoodLabel,
+    getStickerLabel,
+    groupLinksByDomain,
+    layoutGroupRanking,
+    layoutInteractionGraph,
+    layoutMoodChart,
+    layoutWordCloud,
+    SkinRenderer
+} from './types'
+import {
+    GroupAnalysisResult,
+    GroupOverviewEntry,
+    GroupRankingMetric,
+    InteractionMember,
+    MemberTrend,
+    UserStats
+} from '../types'
 
 /**
  * Newspaper skin renderer
@@ -87,7 +113,8 @@ export class NewspaperSkinRenderer implements SkinRenderer {
                 (topic) => `
              <div class="news-article">
                <h3 class="article-title">${topic.topic}</h3>
-               <div class="article-meta">参与者: ${topic.contributors.join(', ')}</div>
+               ${topic.continuity ? `<div class="topic-continuity">${formatTopicContinuity(topic.continuity)}</div>` : ''}
+               <div class="article-meta">参与者: ${topic.contributors.join(', ')}${topic.startTime ? ` | ${formatTopicSession(topic)}` : ''}</div>
                <div class="article-body">${topic.detail}</div>
              </div>
            `
@@ -133,6 +160,397 @@ export class NewspaperSkinRenderer implements SkinRenderer {
             `
     }
 
+    generateMoodChart(mood: GroupAnalysisResult['moodTimeline']): string {
+        if (!mood) {
+            return '<div class="empty-news">本期未作情绪观测</div>'
+        }
+
+        // Each half of `.mood-chart` is 60px tall
+        const bars = layoutMoodChart(mood, 58)
+            .map(
+                (bar) => `
+                    <div class="mood-bar" title="${bar.hour}:00 - ${formatMoodScore(bar.score)} (${bar.messageCount} 条)">
+                        <div class="mood-bar-half mood-bar-upper">
+                            ${bar.tone === 'positive' ? `<div class="mood-bar-fill mood-positive" style="height: ${bar.height}px;"></div>` : ''}
+                        </div>
+                        <div class="mood-bar-half mood-bar-lower">
+                            ${bar.tone === 'negative' ? `<div class="mood-bar-fill mood-negative" style="height: ${bar.height}px;"></div>` : ''}
+                        </div>
+                        <span class="chart-axis">${bar.hour}</span>
+                    </div>`
+            )
+            .join('')
+        const moments = (
+            title: string,
+            tone: string,
+            items: typeof mood.positive
+        ) =>
+            items.length
+                ? `<div class="mood-moments mood-${tone}">
+                    <h4 class="mood-moments-title">${title}</h4>
+                    ${items
+                        .map(
+                            (moment) => `
+                    <p class="mood-moment">
+                        “${moment.content}”
+                        <span class="mood-moment-meta">—— ${moment.nickname}，${formatMoodTime(moment.timestamp)}</span>
+                    </p>`
+                        )
+                        .join('')}
+                </div>`
+                : ''
+
+        return `
+                <div class="mood-chart">${bars}</div>
+                <p class="mood-forecast">全天天气：${getMoodLabel(mood.overall)}（${formatMoodScore(mood.overall)}）</p>
+                ${moments('喜讯', 'positive', mood.positive)}
+                ${moments('警讯', 'negative', mood.negative)}
+            `
+    }
+
+    formatTrend(trend: GroupAnalysisResult['trend']): string {
+        if (!trend || trend.previousMessages === 0) {
+            return '<div class="empty-news">上期无存档，本期不作比较</div>'
+        }
+
+        const formatMembers = (members: MemberTrend[], withDelta = false) =>
+            members.length === 0
+                ? '无'
+                : members
+                      .map(
+                          (member) =>
+                              `${member.nickname}${withDelta ? ` (${formatSignedNumber(member.delta)})` : ''}`
+                      )
+                      .join('、')
+
+        const groups = [
+            {
+                name: '新面孔',
+                badge: 'NEW',
+                desc: formatMembers(trend.newMembers)
+            },
+            {
+                name: '潜水了',
+                badge: 'QUIET',
+                desc: formatMembers(trend.quietMembers)
+            },
+            {
+                name: '活跃上升',
+                badge: 'RISING',
+                desc: formatMembers(trend.risingMembers, true)
+            },
+            {
+                name: '活跃下降',
+                badge: 'FALLING',
+                desc: formatMembers(trend.fallingMembers, true)
+            }
+        ]
+
+        return `
+          <div class="paper-box trend-box">
+            <h3 class="box-title">对比上期 (${trend.previousStart} ~ ${trend.previousEnd})${formatTrendSample(trend)}</h3>
+            <div class="stats-grid trend-stats">
+              <div class="stat-item">
+                <span class="stat-label">消息环比</span>
+                <span class="stat-value">${formatSignedPercent(trend.messageDeltaRatio)}</span>
+              </div>
+              <div class="stat-item">
+                <span class="stat-label">上期消息</span>
+                <span class="stat-value">${trend.previousMessages}</span>
+              </div>
+              <div class="stat-item">
+                <span class="stat-label">人数增减</span>
+                <span class="stat-value">${formatSignedNumber(trend.participantDelta)}</span>
+              </div>
+              <div class="stat-item">
+                <span class="stat-label">上期最活跃</span>
+                <span class="stat-value">${trend.previousMostActivePeriod}</span>
+              </div>
+            </div>
+          </div>
+          <div class="titles-list-wide">
+            ${groups
+                .map(
+                    (group) => `
+            <div class="title-item">
+              <div class="title-header">
+                <span class="title-name">${group.name}</span>
+                <span class="title-badge">${group.badge}</span>
+              </div>
+              <div class="title-desc">${group.desc}</div>
+            </div>
+            `
+                )
+                .join('')}
+          </div>
+        `
+    }
+
+    formatInteractionGraph(
+        graph: GroupAnalysisResult['interactionGraph']
+    ): string {
+        if (!graph || graph.edges.length === 0) {
+            return '<div class="empty-news">本期群友之间鲜有往来</div>'
+        }
+
+        const layout = layoutInteractionGraph(graph)
+        const formatMembers = (
+            members: InteractionMember[],
+            describe: (member: InteractionMember) => string
+        ) =>
+            members.length === 0
+                ? '无'
+                : members
+                      .map(
+                          (member) => `${member.nickname} (${describe(member)})`
+                      )
+                      .join('、')
+
+        const columns = [
+            {
+                name: '最强羁绊',
+                badge: 'PAIRS',
+                desc: graph.edges
+                    .slice(0, 5)
+                    .map(
+                        (edge) =>
+                            `${edge.sourceName} ⇄ ${edge.targetName} · ${edge.weight} 次`
+                    )
+                    .join('<br/>')
+            },
+            {
+                name: '社交中心',
+                badge: 'HUB',
+                desc: formatMembers(
+                    graph.centralMembers,
+                    (member) => `${member.partners} 位`
+                )
+            },
+            {
+                name: '独行侠',
+                badge: 'SOLO',
+                desc: formatMembers(
+                    graph.isolatedMembers,
+                    (member) => `${member.messageCount} 条`
+                )
+            }
+        ]
+
+        return `
+          <div class="paper-box interaction-graph">
+            <h3 class="box-title">往来图谱 (共 ${graph.totalInteractions} 次回复/@)</h3>
+            <svg viewBox="0 0 ${layout.size} ${layout.size}" xmlns="http://www.w3.org/2000/svg">
+              ${layout.edges
+                  .map(
+                      (edge) =>
+                          `<line class="graph-edge" x1="${edge.x1}" y1="${edge.y1}" x2="${edge.x2}" y2="${edge.y2}" stroke-width="${edge.strokeWidth}" />`
+                  )
+                  .join('')}
+              ${layout.nodes
+                  .map(
+                      (node) => `
+              <circle class="graph-node" cx="${node.x}" cy="${node.y}" r="${node.r}" />
+              <text class="graph-label" x="${node.labelX}" y="${node.labelY}" text-anchor="${node.anchor}">${node.label}</text>`
+                  )
+                  .join('')}
+            </svg>
+          </div>
+          <div class="titles-list-wide">
+            ${columns
+                .map(
+                    (column) => `
+            <div class="title-item">
+              <div class="title-header">
+                <span class="title-name">${column.name}</span>
+                <span class="title-badge">${column.badge}</span>
+              </div>
+              <div class="title-desc">${column.desc}</div>
+            </div>
+            `
+                )
+                .join('')}
+          </div>
+        `
+    }
+
+    formatWordCloud(frequency: GroupAnalysisResult['wordFrequency']): string {
+        if (!frequency || frequency.terms.length === 0) {
+            return '<div class="empty-news">本期版面字数寥寥，未见热词</div>'
+        }
+
+        const layout = layoutWordCloud(frequency.terms)
+        const phrases = frequency.phrases
+            .slice(0, 8)
+            .map((phrase) => `${phrase.word} (${phrase.count})`)
+            .join('、')
+
+        return `
+          <div class="paper-box word-cloud">
+            <h3 class="box-title">热词 (共 ${frequency.totalTokens} 词)</h3>
+            <svg viewBox="0 0 ${layout.width} ${layout.height}" xmlns="http://www.w3.org/2000/svg">
+                ${layout.words
+                    .map(
+                        (word) =>
+                            `<text class="cloud-word cloud-word-${word.colorIndex}" x="${word.x}" y="${word.y}" ` +
+                            `font-size="${word.fontSize}" text-anchor="middle">${word.word}</text>`
+                    )
+                    .join('')}
+            </svg>
+            ${phrases ? `<p class="cloud-phrases">高频短语：${phrases}</p>` : ''}
+          </div>
+        `
+    }
+
+    formatContentMix(
+        mix: GroupAnalysisResult['contentMix'],
+        leaders: GroupAnalysisResult['contentLeaders']
+    ): string {
+        const items = mix ? getContentMixItems(mix) : []
+        if (items.length === 0) {
+            return '<div class="empty-news">本期版面无内容统计</div>'
+        }
+
+        const leaderTags = (leaders ?? [])
+            .map(
+                (leader) =>
+                    `${CONTENT_TYPE_LABELS[leader.type]}最多：${leader.nickname} (${leader.count})`
+            )
+            .join('；')
+
+        return `
+          <div class="paper-box content-mix">
+            <h3 class="box-title">内容构成</h3>
+                <div class="mix-bar">
+                    ${items
+                        .map(
+                            (item, index) =>
+                                `<div class="mix-segment mix-color-${index % 6}" style="width: ${(item.ratio * 100).toFixed(1)}%"></div>`
+                        )
+                        .join('')}
+                </div>
+                <div class="mix-legend">
+                    ${items
+                        .map(
+                            (item, index) =>
+                                `<div class="mix-item"><span class="mix-dot mix-color-${index % 6}"></span>` +
+                                `${item.label} · ${item.count}（${Math.round(item.ratio * 100)}%）</div>`
+                        )
+                        .join('')}
+                </div>
+            ${leaderTags ? `<p class="mix-leaders">${leaderTags}</p>` : ''}
+          </div>
+        `
+    }
+
+    formatEmojiLeaderboard(
+        board: GroupAnalysisResult['emojiLeaderboard']
+    ): string {
+        if (!board || board.totalFaces + board.totalStickers === 0) {
+            return '<div class="empty-news">本期无人发表情</div>'
+        }
+
+        const faces = board.faces
+            .map((face) => `${face.name} ×${face.count}`)
+            .join('、')
+        const stickers = board.stickers
+            .map(
+                (sticker) => `
+                <figure class="sticker-item">
+                    ${
+                        sticker.url
+                            ? `<img class="sticker-image" src="${sticker.url}" alt="${getStickerLabel(sticker)}" />`
+                            : `<div class="sticker-placeholder">${getStickerLabel(sticker)}</div>`
+                    }
+                    <figcaption class="sticker-count">×${sticker.count}（${sticker.userCount} 人）</figcaption>
+                </figure>`
+            )
+            .join('')
+        const king = board.topStickerUser
+
+        return `
+          <div class="paper-box emoji-board">
+            <h3 class="box-title">表情排行</h3>
+            <p class="emoji-summary">本期共见小黄脸 ${board.totalFaces} 次、表情包 ${board.totalStickers} 张。</p>
+            ${stickers ? `<div class="sticker-grid">${stickers}</div>` : ''}
+            ${faces ? `<p class="emoji-faces">常用小黄脸：${faces}</p>` : ''}
+            ${king ? `<p class="emoji-king">表情包之王：${king.nickname}（${king.count} 张）</p>` : ''}
+          </div>
+        `
+    }
+
+    formatSharedLinks(links: GroupAnalysisResult['sharedLinks']): string {
+        if (!links || links.length === 0) {
+            return '<div class="empty-news">本期无人分享链接</div>'
+        }
+
+        return `
+          <div class="paper-box link-digest">
+            <h3 class="box-title">读者来稿</h3>
+            ${groupLinksByDomain(links)
+                .map(
+                    (group) => `
+            <div class="link-domain">
+                <h4 class="link-domain-title">${group.domain}<span class="link-domain-count">（${group.links.length} 条）</span></h4>
+                <ul class="link-list">
+                    ${group.links
+                        .map(
+                            (link) => `
+                    <li class="link-item">
+                        <span class="link-title">${link.title || link.url}</span>
+                        ${link.title ? `<span class="link-url">${link.url}</span>` : ''}
+                        <span class="link-meta">—— ${link.nickname} 投稿${link.shareCount > 1 ? `，转载 ${link.shareCount} 次` : ''}</span>
+                        ${link.note ? `<p class="link-note">${link.note}</p>` : ''}
+                    </li>`
+                        )
+                        .join('')}
+                </ul>
+            </div>`
+                )
+                .join('')}
+          </div>
+        `
+    }
+
+    formatGroupRanking(
+        groups: GroupOverviewEntry[],
+        metric: GroupRankingMetric
+    ): string {
+        const titles: Record<GroupRankingMetric, string> = {
+            messages: '发言总量',
+            participants: '人气指数',
+            growth: '涨跌行情'
+        }
+        if (groups.length === 0) {
+            return `
+          <div class="paper-box group-ranking">
+            <h3 class="box-title">${titles[metric]}</h3>
+            <div class="empty-news">本期暂无行情</div>
+          </div>
+        `
+        }
+
+        return `
+          <div class="paper-box group-ranking">
+            <h3 class="box-title">${titles[metric]}</h3>
+            <table class="ranking-table">
+                ${layoutGroupRanking(groups, metric)
+                    .map(
+                        (row) => `
+                <tr class="ranking-row">
+                    <td class="ranking-rank">${row.rank}</td>
+                    <td class="ranking-body">
+                        <span class="ranking-name">${row.groupName}</span>
+                        <span class="ranking-detail">${row.detail}</span>
+                    </td>
+                    <td class="ranking-value${metric === 'growth' ? ` trend-${row.trend}` : ''}">${row.value}</td>
+                </tr>`
+                    )
+                    .join('')}
+            </table>
+          </div>
+        `
+    }
+
     formatTags(tags: string[] | undefined): string {
         if (!tags || tags.length === 0) {
             return ''
@@ -1,5 +1,31 @@
-import { getAvatarUrl, SkinRenderer } from './types'
-import { GroupAnalysisResult, UserStats } from '../types'
+import {
+    CONTENT_TYPE_LABELS,
+    formatMoodScore,
+    formatMoodTime,
+    formatSignedNumber,
+    formatSignedPercent,
+    formatTopicContinuity,
+    formatTopicSession,
+    formatTrendSample,
+    getAvatarUrl,
+    getContentMixItems,
+    getMoodLabel,
+    getStickerLabel,
+    groupLinksByDomain,
+    layoutGroupRanking,
+    layoutInteractionGraph,
+    layoutMoodChart,
+    layoutWordCloud,
+    SkinRenderer
+} from './types'
+import {
+    GroupAnalysisResult,
+    GroupOverviewEntry,
+    GroupRankingMetric,
+    InteractionMember,
+    MemberTrend,
+    UserStats
+} from '../types'
 
 /**
  * Scrapbook Skin Renderer
@@ -125,9 +151,11 @@ export class ScrapbookSkinRenderer implements SkinRenderer {
                     <span class="topic-title">${topic.topic}</span>
                     <span style="font-size: 0.85em; color: #999; font-family: var(--font-body);">#${indexStr}</span>
                 </div>
+                ${topic.continuity ? `<div class="topic-continuity">${formatTopicContinuity(topic.continuity)}</div>` : ''}
                 <div style="font-family: var(--font-hand); font-size: 1.05em; color: var(--ink-secondary); margin-bottom: 8px;">
                     🙋‍♀️ 参与者： ${topic.contributors.join(', ')}
                 </div>
+                ${topic.startTime ? `<div class="topic-session">🕒 ${formatTopicSession(topic)}</div>` : ''}
                 <div class="topic-detail">${topic.detail}</div>
             </div>
         </div>
@@ -153,6 +181,455 @@ export class ScrapbookSkinRenderer implements SkinRenderer {
         `
     }
 
+    formatTrend(trend: GroupAnalysisResult['trend']): string {
+        if (!trend || trend.previousMessages === 0) {
+            return ''
+        }
+
+        const colors = ['c1', 'c2', 'c3', 'c4']
+        const formatMembers = (members: MemberTrend[], withDelta = false) =>
+            members.length === 0
+                ? '<span class="topic-detail">（无）</span>'
+                : members
+                      .map((member, i) => {
+                          const label = withDelta
+                              ? `${member.nickname} ${formatSignedNumber(member.delta)}`
+                              : member.nickname
+                          return `<div class="washi-tape-tag ${colors[i % colors.length]}">${label}</div>`
+                      })
+                      .join('')
+
+        const groups = [
+            { title: '🌱 新面孔', members: formatMembers(trend.newMembers) },
+            { title: '🫧 潜水了', members: formatMembers(trend.quietMembers) },
+            {
+                title: '📈 活跃上升',
+                members: formatMembers(trend.risingMembers, true)
+            },
+            {
+                title: '📉 活跃下降',
+                members: formatMembers(trend.fallingMembers, true)
+            }
+        ]
+
+        const itemsHtml = groups
+            .map(
+                (group) => `
+        <div class="topic-item">
+            <div class="check-box">
+                <div class="check-tick"></div>
+            </div>
+            <div class="topic-content">
+                <div class="topic-title" style="margin-bottom: 8px;">${group.title}</div>
+                <div class="tags-container">${group.members}</div>
+            </div>
+        </div>
+        `
+            )
+            .join('')
+
+        return `
+        <div class="topic-section">
+            <div class="paper-holes">
+                <div class="hole"></div>
+                <div class="hole"></div>
+                <div class="hole"></div>
+            </div>
+            <div class="section-title">
+                <svg class="doodle" viewBox="0 0 24 24">
+                    <path d="M3.5 18.5l6-6 4 4L22 7.92 20.59 6.5l-7.09 7.97-4-4L2 17.99z" />
+                </svg>
+                环比变化 Trends
+            </div>
+            <div class="topic-detail" style="margin-bottom: 12px;">
+                消息 ${formatSignedNumber(trend.messageDelta)}（${formatSignedPercent(trend.messageDeltaRatio)}，上期 ${trend.previousMessages} 条） ·
+                参与人数 ${formatSignedNumber(trend.participantDelta)}（上期 ${trend.previousParticipants} 人） ·
+                上期最活跃 ${trend.previousMostActivePeriod}
+            </div>
+            <div style="font-family: var(--font-hand); color: var(--ink-secondary);">
+                📅 对比周期：${trend.previousStart} ~ ${trend.previousEnd}${formatTrendSample(trend)}
+            </div>
+            ${itemsHtml}
+        </div>
+        `
+    }
+
+    formatInteractionGraph(
+        graph: GroupAnalysisResult['interactionGraph']
+    ): string {
+        if (!graph || graph.edges.length === 0) {
+            return ''
+        }
+
+        const layout = layoutInteractionGraph(graph)
+        const colors = ['c1', 'c2', 'c3', 'c4']
+        const formatMembers = (
+            members: InteractionMember[],
+            describe: (member: InteractionMember) => string
+        ) =>
+            members.length === 0
+                ? '<span class="topic-detail">（无）</span>'
+                : members
+                      .map(
+                          (member, i) =>
+                              `<div class="washi-tape-tag ${colors[i % colors.length]}">${member.nickname} · ${describe(member)}</div>`
+                      )
+                      .join('')
+
+        const pairs = graph.edges
+            .slice(0, 5)
+            .map(
+                (edge) =>
+                    `<div class="topic-detail">💞 ${edge.sourceName} ⇄ ${edge.targetName} · ${edge.weight} 次（回复 ${edge.replies} / @ ${edge.mentions}）</div>`
+            )
+            .join('')
+
+        return `
+        <div class="topic-section">
+            <div class="paper-holes">
+                <div class="hole"></div>
+                <div class="hole"></div>
+                <div class="hole"></div>
+            </div>
+            <div class="section-title">
+                <svg class="doodle" viewBox="0 0 24 24">
+                    <path d="M12 21l-8-8a5 5 0 0 1 8-6 5 5 0 0 1 8 6z" />
+                </svg>
+                互动关系 Connections
+            </div>
+            <div class="interaction-graph">
+                <svg viewBox="0 0 ${layout.size} ${layout.size}" xmlns="http://www.w3.org/2000/svg">
+                    ${layout.edges
+                        .map(
+                            (edge) =>
+                                `<line class="graph-edge" x1="${edge.x1}" y1="${edge.y1}" x2="${edge.x2}" y2="${edge.y2}" stroke-width="${edge.strokeWidth}" />`
+                        )
+                        .join('')}
+                    ${layout.nodes
+                        .map(
+                            (node) => `
+                    <circle class="graph-node" cx="${node.x}" cy="${node.y}" r="${node.r}" />
+                    <text class="graph-label" x="${node.labelX}" y="${node.labelY}" text-anchor="${node.anchor}">${node.label}</text>`
+                        )
+                        .join('')}
+                </svg>
+            </div>
+            <div class="topic-item">
+                <div class="check-box">
+                    <div class="check-tick"></div>
+                </div>
+                <div class="topic-content">
+                    <div class="topic-title" style="margin-bottom: 8px;">最强羁绊</div>
+                    ${pairs}
+                </div>
+            </div>
+            <div class="topic-item">
+                <div class="check-box">
+                    <div class="check-tick"></div>
+                </div>
+                <div class="topic-content">
+                    <div class="topic-title" style="margin-bottom: 8px;">🌟 社交中心</div>
+                    <div class="tags-container">${formatMembers(graph.centralMembers, (member) => `${member.partners} 位好友`)}</div>
+                </div>
+            </div>
+            <div class="topic-item">
+                <div class="check-box">
+                    <div class="check-tick"></div>
+                </div>
+                <div class="topic-content">
+                    <div class="topic-title" style="margin-bottom: 8px;">🏝️ 独行侠</div>
+                    <div class="tags-container">${formatMembers(graph.isolatedMembers, (member) => `${member.messageCount} 条发言`)}</div>
+                </div>
+            </div>
+        </div>
+        `
+    }
+
+    formatWordCloud(frequency: GroupAnalysisResult['wordFrequency']): string {
+        if (!frequency || frequency.terms.length === 0) {
+            return ''
+        }
+
+        const layout = layoutWordCloud(frequency.terms)
+        const colors = ['c1', 'c2', 'c3', 'c4']
+        const phrases = frequency.phrases
+            .slice(0, 8)
+            .map(
+                (phrase, i) =>
+                    `<div class="washi-tape-tag ${colors[i % colors.length]}">${phrase.word} · ${phrase.count}</div>`
+            )
+            .join('')
+
+        return `
+        <div class="topic-section">
+            <div class="paper-holes">
+                <div class="hole"></div>
+                <div class="hole"></div>
+                <div class="hole"></div>
+            </div>
+            <div class="section-title">
+                <svg class="doodle" viewBox="0 0 24 24">
+                    <path d="M6 19a4 4 0 0 1-.5-7.97A6 6 0 0 1 17 9a5 5 0 0 1 1 9.9z" />
+                </svg>
+                热词云 Buzzwords
+            </div>
+            <div class="word-cloud">
+                <svg viewBox="0 0 ${layout.width} ${layout.height}" xmlns="http://www.w3.org/2000/svg">
+                    ${layout.words
+                        .map(
+                            (word) =>
+                                `<text class="cloud-word cloud-word-${word.colorIndex}" x="${word.x}" y="${word.y}" ` +
+                                `font-size="${word.fontSize}" text-anchor="middle">${word.word}</text>`
+                        )
+                        .join('')}
+                </svg>
+            </div>
+            ${
+                phrases
+                    ? `<div class="topic-item">
+                <div class="check-box">
+                    <div class="check-tick"></div>
+                </div>
+                <div class="topic-content">
+                    <div class="topic-title" style="margin-bottom: 8px;">高频短语</div>
+                    <div class="tags-container">${phrases}</div>
+                </div>
+            </div>`
+                    : ''
+            }
+        </div>
+        `
+    }
+
+    formatContentMix(
+        mix: GroupAnalysisResult['contentMix'],
+        leaders: GroupAnalysisResult['contentLeaders']
+    ): string {
+        const items = mix ? getContentMixItems(mix) : []
+        if (items.length === 0) {
+            return ''
+        }
+
+        const colors = ['c1', 'c2', 'c3', 'c4']
+        const leaderTags = (leaders ?? [])
+            .map(
+                (leader, i) =>
+                    `<div class="washi-tape-tag ${colors[i % colors.length]}">` +
+                    `${CONTENT_TYPE_LABELS[leader.type]}最多 · ${leader.nickname} · ${leader.count}</div>`
+            )
+            .join('')
+
+        return `
+        <div class="topic-section">
+            <div class="paper-holes">
+                <div class="hole"></div>
+                <div class="hole"></div>
+                <div class="hole"></div>
+            </div>
+            <div class="section-title">
+                <svg class="doodle" viewBox="0 0 24 24">
+                    <path d="M4 5h16v14H4z M4 15l5-5 4 4 3-3 4 4" />
+                </svg>
+                内容构成 Content Mix
+            </div>
+            <div class="content-mix">
+                <div class="mix-bar">
+                    ${items
+                        .map(
+                            (item, index) =>
+                                `<div class="mix-segment mix-color-${index % 6}" style="width: ${(item.ratio * 100).toFixed(1)}%"></div>`
+                        )
+                        .join('')}
+                </div>
+                <div class="mix-legend">
+                    ${items
+                        .map(
+                            (item, index) =>
+                                `<div class="mix-item"><span class="mix-dot mix-color-${index % 6}"></span>` +
+                                `${item.label} · ${item.count}（${Math.round(item.ratio * 100)}%）</div>`
+                        )
+                        .join('')}
+                </div>
+            </div>
+            ${
+                leaderTags
+                    ? `<div class="topic-item">
+                <div class="check-box">
+                    <div class="check-tick"></div>
+                </div>
+                <div class="topic-content">
+                    <div class="topic-title" style="margin-bottom: 8px;">媒体之最</div>
+                    <div class="tags-container">${leaderTags}</div>
+                </div>
+            </div>`
+                    : ''
+            }
+        </div>
+        `
+    }
+
+    formatEmojiLeaderboard(
+        board: GroupAnalysisResult['emojiLeaderboard']
+    ): string {
+        if (!board || board.totalFaces + board.totalStickers === 0) {
+            return ''
+        }
+
+        const colors = ['c1', 'c2', 'c3', 'c4']
+        const faces = board.faces
+            .map(
+                (face, i) =>
+                    `<div class="washi-tape-tag ${colors[i % colors.length]}">${face.name} ×${face.count}</div>`
+            )
+            .join('')
+        const stickers = board.stickers
+            .map(
+                (sticker) => `
+                <div class="sticker-item">
+                    ${
+                        sticker.url
+                            ? `<img class="sticker-image" src="${sticker.url}" alt="${getStickerLabel(sticker)}" />`
+                            : `<div class="sticker-placeholder">${getStickerLabel(sticker)}</div>`
+                    }
+                    <div class="sticker-count">×${sticker.count} · ${sticker.userCount} 人</div>
+                </div>`
+            )
+            .join('')
+        const king = board.topStickerUser
+
+        return `
+        <div class="topic-section">
+            <div class="paper-holes">
+                <div class="hole"></div>
+                <div class="hole"></div>
+                <div class="hole"></div>
+            </div>
+            <div class="section-title">
+                <svg class="doodle" viewBox="0 0 24 24">
+                    <circle cx="12" cy="12" r="9" />
+                    <path d="M8 14c1 2 7 2 8 0 M9 9h.01 M15 9h.01" />
+                </svg>
+                表情排行 Emoji Board
+            </div>
+            <div class="emoji-board">
+                <div class="emoji-summary">小黄脸 ${board.totalFaces} 次 · 表情包 ${board.totalStickers} 张</div>
+                ${stickers ? `<div class="sticker-grid">${stickers}</div>` : ''}
+                ${faces ? `<div class="tags-container">${faces}</div>` : ''}
+            </div>
+            ${
+                king
+                    ? `<div class="topic-item">
+                <div class="check-box">
+                    <div class="check-tick"></div>
+                </div>
+                <div class="topic-content">
+                    <div class="topic-title" style="margin-bottom: 8px;">表情包之王</div>
+                    <div class="topic-detail">${king.nickname} 共发送 ${king.count} 张表情包</div>
+                </div>
+            </div>`
+                    : ''
+            }
+        </div>
+        `
+    }
+
+    formatSharedLinks(links: GroupAnalysisResult['sharedLinks']): string {
+        if (!links || links.length === 0) {
+            return ''
+        }
+
+        const colors = ['c1', 'c2', 'c3', 'c4']
+        return `
+        <div class="topic-section">
+            <div class="paper-holes">
+                <div class="hole"></div>
+                <div class="hole"></div>
+                <div class="hole"></div>
+            </div>
+            <div class="section-title">
+                <svg class="doodle" viewBox="0 0 24 24">
+                    <path d="M10 14a5 5 0 0 0 7 0l3-3a5 5 0 0 0-7-7l-1 1 M14 10a5 5 0 0 0-7 0l-3 3a5 5 0 0 0 7 7l1-1" />
+                </svg>
+                分享链接 Links
+            </div>
+            ${groupLinksByDomain(links)
+                .map(
+                    (group, i) => `
+            <div class="link-domain">
+                <div class="washi-tape-tag ${colors[i % colors.length]}">${group.domain} · ${group.links.length}</div>
+                ${group.links
+                    .map(
+                        (link) => `
+                <div class="topic-item">
+                    <div class="check-box">
+                        <div class="check-tick"></div>
+                    </div>
+                    <div class="topic-content">
+                        <div class="topic-title link-title">${link.title || link.url}</div>
+                        ${link.title ? `<div class="link-url">${link.url}</div>` : ''}
+                        <div class="topic-detail">${link.nickname} 分享${link.shareCount > 1 ? ` · 共 ${link.shareCount} 次` : ''}</div>
+                        ${link.note ? `<div class="topic-detail">${link.note}</div>` : ''}
+                    </div>
+                </div>`
+                    )
+                    .join('')}
+            </div>`
+                )
+                .join('')}
+        </div>
+        `
+    }
+
+    formatGroupRanking(
+        groups: GroupOverviewEntry[],
+        metric: GroupRankingMetric
+    ): string {
+        const titles: Record<GroupRankingMetric, string> = {
+            messages: '话痨群榜 Messages',
+            participants: '人气群榜 Members',
+            growth: '进步群榜 Growth'
+        }
+        const colors = ['c1', 'c2', 'c3', 'c4']
+
+        return `
+        <div class="topic-section">
+            <div class="paper-holes">
+                <div class="hole"></div>
+                <div class="hole"></div>
+                <div class="hole"></div>
+            </div>
+            <div class="section-title">
+                <svg class="doodle" viewBox="0 0 24 24">
+                    <path d="M6 20V10 M12 20V4 M18 20v-6" />
+                </svg>
+                ${titles[metric]}
+            </div>
+            ${
+                groups.length === 0
+                    ? '<div class="topic-detail">暂无可排行的群</div>'
+                    : layoutGroupRanking(groups, metric)
+                          .map(
+                              (row, i) => `
+            <div class="ranking-row">
+                <div class="washi-tape-tag ${colors[i % colors.length]} ranking-rank">${row.rank}</div>
+                <div class="ranking-body">
+                    <div class="ranking-header">
+                        <span class="topic-title ranking-name">${row.groupName}</span>
+                        <span class="ranking-value${metric === 'growth' ? ` trend-${row.trend}` : ''}">${row.value}</span>
+                    </div>
+                    <div class="ranking-bar">
+                        <div class="ranking-bar-fill" style="width: ${(row.ratio * 100).toFixed(1)}%"></div>
+                    </div>
+                    <div class="topic-detail">${row.detail}</div>
+                </div>
+            </div>`
+                          )
+                          .join('')
+            }
+        </div>
+        `
+    }
+
     formatTags(tags: string[]): string {
         if (!tags || tags.length === 0) return ''
         const colors = ['c1', 'c2', 'c3', 'c4']
@@ -218,4 +695,46 @@ export class ScrapbookSkinRenderer implements SkinRenderer {
         </div>
         `
     }
+
+    generateMoodChart(mood: GroupAnalysisResult['moodTimeline']): string {
+        if (!mood) {
+            return ''
+        }
+
+        // Each half of `.mood-chart` is 80px tall
+        const bars = layoutMoodChart(mood, 76)
+            .map(
+                (bar) => `
+            <div class="mood-column" title="${String(bar.hour).padStart(2, '0')}:00 - ${formatMoodScore(bar.score)} (${bar.messageCount}条)">
+                <div class="mood-half mood-upper">
+                    ${bar.tone === 'positive' ? `<div class="bar-vertical mood-positive" style="height: ${bar.height}px;"></div>` : ''}
+                </div>
+                <div class="mood-half mood-lower">
+                    ${bar.tone === 'negative' ? `<div class="bar-vertical mood-negative" style="height: ${bar.height}px;"></div>` : ''}
+                </div>
+                <div class="bar-label-x">${String(bar.hour).padStart(2, '0')}</div>
+            </div>
+            `
+            )
+            .join('')
+        const moments = [...mood.positive, ...mood.negative]
+            .map(
+                (moment) => `
+            <div class="mood-moment ${moment.score > 0 ? 'mood-positive' : 'mood-negative'}">
+                <span class="mood-moment-mark">${moment.score > 0 ? '☀' : '☂'}</span>
+                <span class="mood-moment-text">${moment.content}</span>
+                <span class="mood-moment-meta">—— ${moment.nickname} ${formatMoodTime(moment.timestamp)}</span>
+            </div>
+            `
+            )
+            .join('')
+
+        return `
+        <div class="mood-chart">
+            ${bars}
+        </div>
+        <div class="mood-summary">今日心情：${getMoodLabel(mood.overall)} (${formatMoodScore(mood.overall)})</div>
+        ${moments ? `<div class="mood-moments">${moments}</div>` : ''}
+        `
+    }
 }
@@ -1,4 +1,21 @@
-import { GroupAnalysisResult, UserPersonaProfile, UserStats, SummaryTopic } from '../types'
+import {
+    ContentTypeCounts,
+    GroupAnalysisResult,
+    GroupOverviewEntry,
+    GroupRankingMetric,
+    InteractionEdge,
+    InteractionGraph,
+    InteractionMember,
+    MessageContentType,
+    MoodTimeline,
+    SharedLink,
+    StickerUsage,
+    SummaryTopic,
+    TopicContinuity,
+    UserPersonaProfile,
+    UserStats,
+    WordCount
+} from '../types'
 
 /**
  * Skin renderer interface
@@ -56,6 +73,74 @@ export interface SkinRenderer {
      */
     generateActiveHoursChart(activeHours: Record<number, number>): string
 
+    /**
+     * Format period-over-period trend section
+     * @param trend Comparison with the previous window, may be missing on old reports
+     * @returns HTML string
+     */
+    formatTrend(trend: GroupAnalysisResult['trend']): string
+
+    /**
+     * Format reply/mention interaction graph section
+     * @param graph Interaction graph, may be missing on old reports
+     * @returns HTML string
+     */
+    formatInteractionGraph(
+        graph: GroupAnalysisResult['interactionGraph']
+    ): string
+
+    /**
+     * Format word frequency section as a word cloud
+     * @param frequency Word frequency, may be missing on old reports
+     * @returns HTML string
+     */
+    formatWordCloud(frequency: GroupAnalysisResult['wordFrequency']): string
+
+    /**
+     * Format content type breakdown section
+     * @param mix Group-wide content type counts, may be missing on old reports
+     * @param leaders Member posting the most of each media type
+     * @returns HTML string
+     */
+    formatContentMix(
+        mix: GroupAnalysisResult['contentMix'],
+        leaders: GroupAnalysisResult['contentLeaders']
+    ): string
+
+    /**
+     * Format most used faces and stickers section
+     * @param board Emoji leaderboard, may be missing on old reports
+     * @returns HTML string
+     */
+    formatEmojiLeaderboard(
+        board: GroupAnalysisResult['emojiLeaderboard']
+    ): string
+
+    /**
+     * Format shared links section, grouped by domain
+     * @param links Shared links, may be missing on old reports
+     * @returns HTML string
+     */
+    formatSharedLinks(links: GroupAnalysisResult['sharedLinks']): string
+
+    /**
+     * Generate hourly mood chart with the most positive and negative moments
+     * @param mood Mood timeline, may be missing on old reports
+     * @returns HTML string
+     */
+    generateMoodChart(mood: GroupAnalysisResult['moodTimeline']): string
+
+    /**
+     * Format one leaderboard of the cross-group overview
+     * @param groups Groups already sorted by the metric
+     * @param metric Metric the groups are ranked by
+     * @returns HTML string
+     */
+    formatGroupRanking(
+        groups: GroupOverviewEntry[],
+        metric: GroupRankingMetric
+    ): string
+
     /**
      * Format tags for user persona (optional)
      * @param tags Array of tags
@@ -79,3 +164,474 @@ export interface SkinRenderer {
 export function getAvatarUrl(userId: number | string): string {
     return `http://q1.qlogo.cn/g?b=qq&nk=${userId}&s=640`
 }
+
+/**
+ * Format a number with an explicit sign
+ * @param value Number to format
+ * @returns Signed string, e.g. "+12" or "-3"
+ */
+export function formatSignedNumber(value: number): string {
+    return value > 0 ? `+${value}` : String(value)
+}
+
+/**
+ * Format a ratio as a signed percentage
+ * @param ratio Ratio to format, null when there is no baseline
+ * @returns Signed percentage, e.g. "+20%", or "—" without baseline
+ */
+export function formatSignedPercent(ratio: number | null): string {
+    if (ratio == null) return '—'
+    return formatSignedNumber(Math.round(ratio * 100)) + '%'
+}
+
+export interface InteractionGraphLayout {
+    size: number
+    nodes: (InteractionMember & {
+        x: number
+        y: number
+        r: number
+        label: string
+        labelX: number
+        labelY: number
+        anchor: 'start' | 'middle' | 'end'
+    })[]
+    edges: (InteractionEdge & {
+        x1: number
+        y1: number
+        x2: number
+        y2: number
+        strokeWidth: number
+    })[]
+}
+
+/**
+ * Place interaction graph nodes on a circle so skins only need to draw them
+ * @param graph Interaction graph
+ * @param size Width and height of the square SVG viewport
+ * @param maxNodes Maximum number of nodes to place
+ * @returns Node positions and edge coordinates
+ */
+export function layoutInteractionGraph(
+    graph: InteractionGraph,
+    size = 560,
+    maxNodes = 12
+): InteractionGraphLayout {
+    const members = graph.nodes.slice(0, maxNodes)
+    const center = size / 2
+    const radius = center - 90
+    const maxNodeWeight = Math.max(1, ...members.map((node) => node.weight))
+
+    const nodes = members.map((member, index) => {
+        const angle = (2 * Math.PI * index) / members.length - Math.PI / 2
+        const cos = Math.cos(angle)
+        const sin = Math.sin(angle)
+        const r = 12 + 14 * (member.weight / maxNodeWeight)
+
+        return {
+            ...member,
+            x: center + radius * cos,
+            y: center + radius * sin,
+            r,
+            label:
+                member.nickname.length > 8
+                    ? member.nickname.slice(0, 8) + '…'
+                    : member.nickname,
+            labelX: center + (radius + r + 8) * cos,
+            labelY: center + (radius + r + 8) * sin + 5,
+            anchor: (Math.abs(cos) < 0.2
+                ? 'middle'
+                : cos > 0
+                  ? 'start'
+                  : 'end') as 'start' | 'middle' | 'end'
+        }
+    })
+
+    const positions = new Map(nodes.map((node) => [node.userId, node]))
+    const visibleEdges = graph.edges.filter(
+        (edge) => positions.has(edge.sourceId) && positions.has(edge.targetId)
+    )
+    const maxEdgeWeight = Math.max(
+        1,
+        ...visibleEdges.map((edge) => edge.weight)
+    )
+
+    const edges = visibleEdges.map((edge) => {
+        const source = positions.get(edge.sourceId)
+        const target = positions.get(edge.targetId)
+        return {
+            ...edge,
+            x1: source.x,
+            y1: source.y,
+            x2: target.x,
+            y2: target.y,
+            strokeWidth: 1 + 7 * (edge.weight / maxEdgeWeight)
+        }
+    })
+
+    return { size, nodes, edges }
+}
+
+export interface WordCloudLayout {
+    width: number
+    height: number
+    words: (WordCount & {
+        x: number
+        y: number
+        fontSize: number
+        /** 0-4, larger words get lower indexes */
+        colorIndex: number
+    })[]
+}
+
+const CJK_CHAR_PATTERN = /[\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]/
+
+function estimateTextWidth(text: string, fontSize: number) {
+    let width = 0
+    for (const char of text) {
+        width += CJK_CHAR_PATTERN.test(char) ? fontSize : fontSize * 0.6
+    }
+    return width
+}
+
+/**
+ * Place words on an archimedean spiral from the center, skipping positions
+ * that overlap already placed words. The result only depends on the input,
+ * so the same report always renders the same cloud.
+ * @param terms Words sorted by count, most frequent first
+ * @param width Width of the SVG viewport
+ * @param height Height of the SVG viewport
+ * @param maxWords Maximum number of words to place
+ * @returns Positions of the placed words, x/y being the text center
+ */
+export function layoutWordCloud(
+    terms: WordCount[],
+    width = 640,
+    height = 360,
+    maxWords = 60
+): WordCloudLayout {
+    const items = terms.slice(0, maxWords)
+    const maxCount = Math.max(1, ...items.map((item) => item.count))
+    const minCount = Math.min(maxCount, ...items.map((item) => item.count))
+    const placed: { x: number; y: number; w: number; h: number }[] = []
+    const words: WordCloudLayout['words'] = []
+
+    const overlaps = (box: { x: number; y: number; w: number; h: number }) =>
+        placed.some(
+            (other) =>
+                box.x < other.x + other.w &&
+                other.x < box.x + box.w &&
+                box.y < other.y + other.h &&
+                other.y < box.y + box.h
+        )
+
+    items.forEach((item, index) => {
+        const weight =
+            maxCount === minCount
+                ? 1
+                : (item.count - minCount) / (maxCount - minCount)
+        const fontSize = Math.round(13 + 31 * Math.sqrt(weight))
+        const w = estimateTextWidth(item.word, fontSize) + 6
+        const h = fontSize * 1.1 + 2
+
+        for (let step = 0; step < 1500; step++) {
+            const angle = step * 0.25
+            const radius = 3 * angle
+            // Stretch horizontally to follow the viewport aspect ratio
+            const cx = width / 2 + radius * Math.cos(angle) * (width / height)
+            const cy = height / 2 + radius * Math.sin(angle)
+            const box = { x: cx - w / 2, y: cy - h / 2, w, h }
+
+            if (
+                box.x < 0 ||
+                box.y < 0 ||
+                box.x + w > width ||
+                box.y + h > height ||
+                overlaps(box)
+            ) {
+                continue
+            }
+
+            placed.push(box)
+            words.push({
+                ...item,
+                x: Math.round(cx),
+                // Text baseline sits slightly below the visual center
+                y: Math.round(cy + fontSize * 0.35),
+                fontSize,
+                colorIndex: Math.min(4, Math.floor((index / items.length) * 5))
+            })
+            return
+        }
+    })
+
+    return { width, height, words }
+}
+
+export const CONTENT_TYPE_LABELS: Record<MessageContentType, string> = {
+    text: '文字',
+    image: '图片',
+    sticker: '表情包',
+    face: '小黄脸',
+    voice: '语音',
+    video: '视频',
+    file: '文件',
+    link: '链接',
+    forward: '合并转发',
+    card: '卡片'
+}
+
+export interface ContentMixItem {
+    type: MessageContentType
+    label: string
+    count: number
+    /** Share of all counted items, 0-1 */
+    ratio: number
+}
+
+/**
+ * List the non-empty content types, most frequent first
+ * @param mix Content type counts
+ * @returns Items with labels and ratios
+ */
+export function getContentMixItems(mix: ContentTypeCounts): ContentMixItem[] {
+    const entries = Object.entries(mix) as [MessageContentType, number][]
+    const total = entries.reduce((sum, [, count]) => sum + count, 0)
+    if (!total) return []
+
+    return entries
+        .filter(([, count]) => count > 0)
+        .map(([type, count]) => ({
+            type,
+            label: CONTENT_TYPE_LABELS[type],
+            count,
+            ratio: count / total
+        }))
+        .sort((a, b) => b.count - a.count)
+}
+
+/**
+ * Text shown for a sticker without a usable image, e.g. '[动画表情]' -> '动画表情'
+ * @param sticker Sticker usage
+ */
+export function getStickerLabel(sticker: StickerUsage): string {
+    return sticker.summary?.replace(/^\[|\]$/g, '').trim() || '表情包'
+}
+
+export interface LinkDomainGroup {
+    domain: string
+    links: SharedLink[]
+}
+
+/**
+ * Group links by domain, domains with the most shares first
+ * @param links Shared links
+ */
+export function groupLinksByDomain(links: SharedLink[]): LinkDomainGroup[] {
+    const groups = new Map<string, SharedLink[]>()
+    for (const link of links) {
+        const group = groups.get(link.domain) ?? []
+        group.push(link)
+        groups.set(link.domain, group)
+    }
+
+    const shares = (group: SharedLink[]) =>
+        group.reduce((sum, link) => sum + link.shareCount, 0)
+
+    return Array.from(groups.entries())
+        .map(([domain, links]) => ({ domain, links }))
+        .sort((a, b) => shares(b.links) - shares(a.links))
+}
+
+export interface MoodChartBar {
+    hour: number
+    score: number
+    messageCount: number
+    /** Bar length from the zero line in px, 0 for silent or neutral hours */
+    height: number
+    tone: 'positive' | 'negative' | 'neutral'
+}
+
+/**
+ * Scale the hourly mood scores into bars drawn up or down from a zero line.
+ * Scores are scaled to the strongest hour so quiet groups still show a shape.
+ * @param mood Mood timeline
+ * @param maxHeight Length of the longest bar in px
+ * @returns 24 bars, one per hour
+ */
+export function layoutMoodChart(
+    mood: MoodTimeline,
+    maxHeight: number
+): MoodChartBar[] {
+    const maxScore = Math.max(
+        0.05,
+        ...mood.hours.map((hour) => Math.abs(hour.score))
+    )
+
+    return mood.hours.map((hour) => {
+        let height = (Math.abs(hour.score) / maxScore) * maxHeight
+        if (hour.score !== 0 && height < 2) height = 2
+
+        return {
+            hour: hour.hour,
+            score: hour.score,
+            messageCount: hour.messageCount,
+            height: Math.round(height),
+            tone:
+                hour.score > 0
+                    ? 'positive'
+                    : hour.score < 0
+                      ? 'negative'
+                      : 'neutral'
+        }
+    })
+}
+
+/**
+ * Describe an average mood score in a word
+ * @param score Score in [-1, 1]
+ */
+export function getMoodLabel(score: number): string {
+    if (score >= 0.3) return '欢乐'
+    if (score >= 0.1) return '愉快'
+    if (score > -0.1) return '平和'
+    if (score > -0.3) return '低落'
+    return '紧张'
+}
+
+/**
+ * Format a mood score with an explicit sign, e.g. "+0.42"
+ * @param score Score in [-1, 1]
+ */
+export function formatMoodScore(score: number): string {
+    return score > 0 ? `+${score.toFixed(2)}` : score.toFixed(2)
+}
+
+/**
+ * Time of a mood moment, e.g. "3/14 21:05"
+ * @param timestamp Time the message was sent
+ */
+export function formatMoodTime(timestamp: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0')
+    return (
+        `${timestamp.getMonth() + 1}/${timestamp.getDate()} ` +
+        `${pad(timestamp.getHours())}:${pad(timestamp.getMinutes())}`
+    )
+}
+
+/**
+ * Label of a topic continued from earlier reports, e.g. "延续自 3 天前 · 累计 4 天"
+ * @param continuity Continuity of the topic
+ */
+export function formatTopicContinuity(continuity: TopicContinuity): string {
+    return `延续自 ${continuity.days} 天前 · 累计 ${continuity.occurrences} 天`
+}
+
+/**
+ * Time range of a conversation, e.g. "3/14 21:05 - 22:40". The end date is
+ * only written when the conversation ran past midnight.
+ */
+export function formatTimeRange(start: Date, end: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0')
+    const endText =
+        start.toDateString() === end.toDateString()
+            ? `${pad(end.getHours())}:${pad(end.getMinutes())}`
+            : formatMoodTime(end)
+    return `${formatMoodTime(start)} - ${endText}`
+}
+
+/**
+ * Time range and size of the conversation a topic came from, e.g.
+ * "3/14 21:05 - 22:40 · 56 条消息"
+ * @param topic Topic with session information
+ * @returns Empty string for topics without session information
+ */
+export function formatTopicSession(topic: SummaryTopic): string {
+    if (!topic.startTime || !topic.endTime) return ''
+
+    const count = topic.messageCount ? ` · ${topic.messageCount} 条消息` : ''
+    return formatTimeRange(topic.startTime, topic.endTime) + count
+}
+
+/**
+ * Note shown next to the compared period when the trend only covers a
+ * sample of each window, e.g. "（按各期最多 500 条消息统计）"
+ * @returns Empty string for trends based on full counts
+ */
+export function formatTrendSample(
+    trend: NonNullable<GroupAnalysisResult['trend']>
+): string {
+    return trend.sampledMessages
+        ? `（按各期最多 ${trend.sampledMessages} 条消息统计）`
+        : ''
+}
+
+export interface GroupRankingRow {
+    rank: number
+    groupName: string
+    /** Headline figure of the metric, e.g. "1234 条" */
+    value: string
+    /** The group's other figures */
+    detail: string
+    /** Bar length relative to the leading group, in [0, 1] */
+    ratio: number
+    trend: 'up' | 'down' | 'flat'
+}
+
+/**
+ * Turn ranked groups into rows with display values, so every skin shows the
+ * same figures for a leaderboard
+ * @param groups Groups sorted by the metric
+ * @param metric Metric the groups are ranked by
+ */
+export function layoutGroupRanking(
+    groups: GroupOverviewEntry[],
+    metric: GroupRankingMetric
+): GroupRankingRow[] {
+    const measure = (group: GroupOverviewEntry) => {
+        if (metric === 'messages') return group.totalMessages
+        if (metric === 'participants') return group.totalParticipants
+        // Groups without a previous window count as full-length bars
+        return group.messageDeltaRatio == null
+            ? Number(group.totalMessages > 0)
+            : Math.abs(group.messageDeltaRatio)
+    }
+    const max = Math.max(...groups.map(measure), 0)
+
+    return groups.map((group, index) => {
+        const growth =
+            group.messageDeltaRatio == null
+                ? group.totalMessages > 0
+                    ? '新上榜'
+                    : '—'
+                : formatSignedPercent(group.messageDeltaRatio)
+
+        const sampled = group.sampledMessages
+            ? ` · 按最近 ${group.sampledMessages} 条统计`
+            : ''
+
+        return {
+            rank: index + 1,
+            groupName: group.groupName,
+            value:
+                metric === 'messages'
+                    ? `${group.totalMessages} 条`
+                    : metric === 'participants'
+                      ? `${group.totalParticipants} 人`
+                      : growth,
+            detail:
+                (metric === 'growth'
+                    ? `${group.totalMessages} 条 · 上期 ${group.previousMessages} 条`
+                    : metric === 'messages'
+                      ? `${group.totalParticipants} 人参与 · 环比 ${growth}`
+                      : `${group.totalMessages} 条 · 最活跃 ${group.mostActiveUser?.nickname ?? '—'}`) +
+                sampled,
+            ratio: max > 0 ? measure(group) / max : 0,
+            trend:
+                group.messageDelta > 0
+                    ? 'up'
+                    : group.messageDelta < 0
+                      ? 'down'
+                      : 'flat'
+        }
+    })
+}
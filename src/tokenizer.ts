@@ -0,0 +1,148 @@
+import { WordCount, WordFrequency } from './types'
+import { escapeRegExp } from './utils'
+
+export interface TokenizerOptions {
+    stopWords?: string[]
+    dictionary?: string[]
+}
+
+export interface Tokenizer {
+    tokenize(text: string): string[]
+}
+
+// Function words and chat filler that carry no topic on their own
+const DEFAULT_STOP_WORDS = (
+    '的 了 是 我 你 他 她 它 们 我们 你们 他们 她们 这 那 这个 那个 这些 那些 这样 那样 这么 那么 ' +
+    '什么 怎么 怎样 为什么 哪里 哪个 一个 一下 一些 一点 一样 没有 不是 就是 还是 但是 可是 因为 所以 ' +
+    '如果 虽然 而且 然后 或者 还有 已经 可以 可能 应该 需要 知道 觉得 感觉 现在 时候 今天 明天 昨天 自己 ' +
+    '大家 东西 真的 其实 只是 不过 而已 不要 不会 不能 不用 有点 还要 还在 也是 都是 就是说 的话 之类 ' +
+    '哈哈 哈哈哈 哈哈哈哈 呵呵 嘿嘿 嘻嘻 啊啊 嗯嗯 好的 是的 对的 对啊 是啊 好吧 行吧 算了 图片 表情 ' +
+    '动画表情 the and you for that this with are not have but was ' +
+    'http https www com'
+).split(' ')
+
+const URL_PATTERN = /https?:\/\/\S+/g
+const CQ_CODE_PATTERN = /\[CQ:[^\]]*\]/g
+const CJK_PATTERN = /[\u3400-\u9fff]/
+const NUMERIC_PATTERN = /^[\d.,:%\-+]+$/
+
+/**
+ * Create a Chinese-aware word tokenizer based on Intl.Segmenter.
+ * Words of the custom dictionary are never split, stop words, numbers and
+ * single characters are dropped.
+ */
+export function createTokenizer(options: TokenizerOptions = {}): Tokenizer {
+    const segmenter = new Intl.Segmenter('zh', { granularity: 'word' })
+    const stopWords = new Set(
+        [...DEFAULT_STOP_WORDS, ...(options.stopWords ?? [])].map((word) =>
+            word.toLowerCase()
+        )
+    )
+
+    const dictionary = Array.from(
+        new Set((options.dictionary ?? []).map((word) => word.trim()))
+    )
+        .filter(Boolean)
+        // Longest first so that overlapping entries prefer the longer word
+        .sort((a, b) => b.length - a.length)
+    const dictionaryPattern = dictionary.length
+        ? new RegExp(`(${dictionary.map(escapeRegExp).join('|')})`, 'gi')
+        : null
+
+    const keep = (word: string) =>
+        word.length > 1 && !stopWords.has(word) && !NUMERIC_PATTERN.test(word)
+
+    const segment = (text: string) =>
+        Array.from(segmenter.segment(text))
+            .filter((part) => part.isWordLike)
+            .map((part) => part.segment.toLowerCase())
+
+    return {
+        tokenize(text: string) {
+            const cleaned = text
+                .replace(URL_PATTERN, ' ')
+                .replace(CQ_CODE_PATTERN, ' ')
+
+            const parts = dictionaryPattern
+                ? cleaned.split(dictionaryPattern)
+                : [cleaned]
+
+            return parts
+                .flatMap((part, index) =>
+                    // split() with a capture group puts matches at odd indexes
+                    index % 2 === 1 ? [part.toLowerCase()] : segment(part)
+                )
+                .filter(keep)
+        }
+    }
+}
+
+function toSortedCounts(counts: Map<string, number>, limit: number) {
+    return Array.from(counts.entries())
+        .map(([word, count]): WordCount => ({ word, count }))
+        .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+        .slice(0, limit)
+}
+
+/**
+ * Count terms and two-word phrases of the extracted message texts.
+ * @param texts Pure text of each message with its sender
+ * @param tokenizer Tokenizer created by createTokenizer
+ * @param limit Maximum number of terms and phrases to keep
+ * @param userLimit Maximum number of top words kept per user
+ */
+export function buildWordFrequency(
+    texts: { userId: string; text: string }[],
+    tokenizer: Tokenizer,
+    limit = 60,
+    userLimit = 5
+): WordFrequency {
+    const terms = new Map<string, number>()
+    const phrases = new Map<string, number>()
+    const userTerms = new Map<string, Map<string, number>>()
+    let totalTokens = 0
+
+    for (const { userId, text } of texts) {
+        const tokens = tokenizer.tokenize(text)
+        totalTokens += tokens.length
+
+        let counts = userTerms.get(userId)
+        if (!counts) {
+            counts = new Map()
+            userTerms.set(userId, counts)
+        }
+
+        tokens.forEach((token, index) => {
+            terms.set(token, (terms.get(token) ?? 0) + 1)
+            counts.set(token, (counts.get(token) ?? 0) + 1)
+
+            const next = tokens[index + 1]
+            if (!next || next === token) return
+            const phrase =
+                CJK_PATTERN.test(token) && CJK_PATTERN.test(next)
+                    ? token + next
+                    : `${token} ${next}`
+            phrases.set(phrase, (phrases.get(phrase) ?? 0) + 1)
+        })
+    }
+
+    const userTopWords: Record<string, string[]> = {}
+    for (const [userId, counts] of userTerms) {
+        const top = toSortedCounts(counts, userLimit)
+            .filter((item) => item.count > 1)
+            .map((item) => item.word)
+        if (top.length) userTopWords[userId] = top
+    }
+
+    // A phrase seen once is just two adjacent words
+    const repeatedPhrases = new Map(
+        Array.from(phrases.entries()).filter(([, count]) => count > 1)
+    )
+
+    return {
+        totalTokens,
+        terms: toSortedCounts(terms, limit),
+        phrases: toSortedCounts(repeatedPhrases, Math.ceil(limit / 4)),
+        userTopWords
+    }
+}
@@ -0,0 +1,96 @@
+import { GroupTopicRecord, SummaryTopic, TopicThread } from './types'
+import { cosineSimilarity } from './vector-store'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function getDayKey(date: Date) {
+    return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`
+}
+
+/**
+ * Number of calendar days between two times, ignoring the time of day
+ */
+export function getCalendarDayDiff(from: Date, to: Date): number {
+    const start = new Date(from.getFullYear(), from.getMonth(), from.getDate())
+    const end = new Date(to.getFullYear(), to.getMonth(), to.getDate())
+    return Math.round((end.getTime() - start.getTime()) / DAY_MS)
+}
+
+/**
+ * Text embedded for a topic, the title alone is often too short to compare
+ */
+export function getTopicEmbeddingText(topic: SummaryTopic): string {
+    return `${topic.topic}\n${topic.detail}`.slice(0, 500)
+}
+
+/**
+ * Group stored topics into threads. Reports run several times a day would
+ * repeat the same topic, so only the last record of each day is kept.
+ * @param records Stored topics of one group
+ * @returns Threads, most recently seen first
+ */
+export function buildTopicThreads(records: GroupTopicRecord[]): TopicThread[] {
+    const threads = new Map<string, Map<string, GroupTopicRecord>>()
+
+    for (const record of [...records].sort(
+        (a, b) => a.endTime.getTime() - b.endTime.getTime()
+    )) {
+        const days = threads.get(record.threadId) ?? new Map()
+        days.set(getDayKey(record.endTime), record)
+        threads.set(record.threadId, days)
+    }
+
+    return Array.from(threads.entries())
+        .map(([threadId, days]) => {
+            const entries = Array.from(days.values())
+            const last = entries[entries.length - 1]
+            return {
+                threadId,
+                topic: last.topic,
+                firstSeenAt: entries[0].endTime,
+                lastSeenAt: last.endTime,
+                entries
+            }
+        })
+        .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+}
+
+/**
+ * Pair new topics with earlier threads by cosine similarity. Each thread is
+ * continued by at most one topic, the closest pairs are taken first.
+ * @param vectors Vectors of the new topics
+ * @param candidates Earlier topics that carry a vector
+ * @param threshold Minimum similarity to count as the same topic
+ * @returns Thread id per new topic, undefined for new topics
+ */
+export function matchTopicsByVector(
+    vectors: number[][],
+    candidates: { threadId: string; vector: number[] }[],
+    threshold: number
+): (string | undefined)[] {
+    const pairs: { index: number; threadId: string; score: number }[] = []
+
+    for (const [index, vector] of vectors.entries()) {
+        // A thread is as close as its closest earlier record
+        const best = new Map<string, number>()
+        for (const candidate of candidates) {
+            const score = cosineSimilarity(vector, candidate.vector)
+            if (score > (best.get(candidate.threadId) ?? -Infinity)) {
+                best.set(candidate.threadId, score)
+            }
+        }
+        for (const [threadId, score] of best) {
+            if (score >= threshold) pairs.push({ index, threadId, score })
+        }
+    }
+
+    const matches: (string | undefined)[] = vectors.map(() => undefined)
+    const used = new Set<string>()
+    for (const { index, threadId } of pairs.sort((a, b) => b.score - a.score)) {
+        if (matches[index] || used.has(threadId)) continue
+        matches[index] = threadId
+        used.add(threadId)
+    }
+
+    return matches
+}
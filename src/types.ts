@@ -1,4 +1,4 @@
-import { h } from "koishi"
+import { h } from 'koishi'
 
 export interface OneBotMessage {
     message_id: number
@@ -29,12 +29,123 @@ export interface UserStats {
     replyCount: number
     emojiRatio: number
     atCount: number
+    // Number of 'face' and 'sticker' elements sent
     emojiStats: Record<string, number>
     nightRatio: number
     avgChars: number
     replyRatio: number
     nightMessages: number
     activeHours: Record<number, number>
+    topWords?: string[]
+    contentTypes?: ContentTypeCounts
+}
+
+// 消息内容类型，文字按消息计数，其余按出现次数计数
+export type MessageContentType =
+    | 'text'
+    | 'image'
+    | 'sticker'
+    | 'face'
+    | 'voice'
+    | 'video'
+    | 'file'
+    | 'link'
+    | 'forward'
+    | 'card'
+
+export type ContentTypeCounts = Record<MessageContentType, number>
+
+// 某类内容发送最多的成员
+export interface ContentLeader {
+    type: MessageContentType
+    userId: string
+    nickname: string
+    count: number
+}
+
+export interface FaceUsage {
+    id: string
+    name: string
+    count: number
+}
+
+// 同一表情包按文件或商城表情 id 归并
+export interface StickerUsage {
+    key: string
+    url?: string
+    summary?: string
+    count: number
+    userCount: number
+}
+
+export interface EmojiUser {
+    userId: string
+    nickname: string
+    count: number
+}
+
+// 群内分享的链接，同一链接只保留首次分享者
+export interface SharedLink {
+    url: string
+    domain: string
+    title?: string
+    // Plain text url or share card (OneBot json / xml / share)
+    source: 'text' | 'card'
+    userId: string
+    nickname: string
+    timestamp: Date
+    // StoredMessage.id of the first share
+    messageId: string
+    shareCount: number
+    // LLM-written reason for sharing
+    note?: string
+}
+
+// 群内表情与表情包排行
+export interface EmojiLeaderboard {
+    totalFaces: number
+    totalStickers: number
+    faces: FaceUsage[]
+    stickers: StickerUsage[]
+    topFaceUser?: EmojiUser
+    topStickerUser?: EmojiUser
+}
+
+// 某一小时的平均情绪，score 范围 [-1, 1]
+export interface MoodHour {
+    hour: number
+    score: number
+    messageCount: number
+    positive: number
+    negative: number
+}
+
+// 情绪最强烈的一条消息
+export interface MoodMoment {
+    userId: string
+    nickname: string
+    content: string
+    timestamp: Date
+    score: number
+}
+
+// 按小时统计的群聊情绪曲线
+export interface MoodTimeline {
+    method: 'lexicon' | 'model'
+    overall: number
+    hours: MoodHour[]
+    positive: MoodMoment[]
+    negative: MoodMoment[]
+}
+
+// 话题与往期报告中同一话题的延续关系
+export interface TopicContinuity {
+    threadId: string
+    firstSeenAt: Date
+    // Calendar days since the report the topic first came up in
+    days: number
+    // Days the topic came up on, including this report
+    occurrences: number
 }
 
 // 话题总结
@@ -42,6 +153,23 @@ export interface SummaryTopic {
     topic: string
     contributors: string[]
     detail: string
+    continuity?: TopicContinuity
+    // Conversation session(s) the topic was extracted from
+    startTime?: Date
+    endTime?: Date
+    messageCount?: number
+    participants?: string[]
+}
+
+// 按时间间隔、回复链与@关系切分出的一段会话
+export interface ConversationSession {
+    // 1-based, sessions are numbered by start time
+    index: number
+    start: Date
+    end: Date
+    messages: StoredMessage[]
+    // Most active first
+    participants: { userId: string; nickname: string; messageCount: number }[]
 }
 
 // 用户称号
@@ -61,6 +189,78 @@ export interface GoldenQuote {
     reason: string
 }
 
+// 成员环比变化
+export interface MemberTrend {
+    userId: string
+    nickname: string
+    currentMessages: number
+    previousMessages: number
+    delta: number
+}
+
+// 与上一周期的环比对比
+export interface GroupTrend {
+    previousStart: string
+    previousEnd: string
+    previousMessages: number
+    previousParticipants: number
+    messageDelta: number
+    messageDeltaRatio: number | null
+    participantDelta: number
+    currentMostActivePeriod: string
+    previousMostActivePeriod: string
+    newMembers: MemberTrend[]
+    quietMembers: MemberTrend[]
+    risingMembers: MemberTrend[]
+    fallingMembers: MemberTrend[]
+    // Read limit of each window, set when the history comes from the
+    // platform API and a window reached it, so counts are lower bounds
+    sampledMessages?: number
+}
+
+// 互动关系中的成员
+export interface InteractionMember {
+    userId: string
+    nickname: string
+    messageCount: number
+    partners: number
+    weight: number
+}
+
+// 两名成员之间的互动（无向，回复与@合计）
+export interface InteractionEdge {
+    sourceId: string
+    sourceName: string
+    targetId: string
+    targetName: string
+    replies: number
+    mentions: number
+    weight: number
+}
+
+// 基于回复与@的互动关系图
+export interface InteractionGraph {
+    totalInteractions: number
+    nodes: InteractionMember[]
+    edges: InteractionEdge[]
+    centralMembers: InteractionMember[]
+    isolatedMembers: InteractionMember[]
+}
+
+// 词频统计中的单个词
+export interface WordCount {
+    word: string
+    count: number
+}
+
+// 分词后的词频与短语统计
+export interface WordFrequency {
+    totalTokens: number
+    terms: WordCount[]
+    phrases: WordCount[]
+    userTopWords: Record<string, string[]>
+}
+
 export interface UserPersonaProfile {
     userId: string
     username: string
@@ -89,6 +289,14 @@ export interface GroupAnalysisResult {
     activeHoursData: Record<number, number>
     analysisDate: string
     groupName: string
+    trend?: GroupTrend
+    interactionGraph?: InteractionGraph
+    wordFrequency?: WordFrequency
+    contentMix?: ContentTypeCounts
+    contentLeaders?: ContentLeader[]
+    emojiLeaderboard?: EmojiLeaderboard
+    sharedLinks?: SharedLink[]
+    moodTimeline?: MoodTimeline
 }
 
 export type QueryAction = '只分析' | '分析加对话' | '只对话'
@@ -125,6 +333,9 @@ export interface BasicStatsResult {
     totalChars: number
     totalEmojiCount: number
     allMessagesText: string[]
+    messageTexts: { userId: string; text: string }[]
+    contentMix: ContentTypeCounts
+    sharedLinks: SharedLink[]
 }
 
 export interface GroupMessageFetchFilter {
@@ -148,6 +359,7 @@ export interface MessageFilter {
     limit?: number
     offset?: number
     purpose?: 'group-analysis' | 'user-persona' | 'general'
+    includeRecalled?: boolean
 }
 
 export interface StoredMessage {
@@ -163,8 +375,98 @@ export interface StoredMessage {
     timestamp: Date
     messageId?: string
     elements?: h[]
+    quoteId?: string
+    quoteUserId?: string
+    mentionedUserIds?: string[]
+    serializedElements?: string
+    recalled?: boolean
+    editedAt?: Date
 }
 
+// 单个群在数据库中保存的消息概况
+export interface GroupStorageStats {
+    platform: string
+    selfId: string
+    guildId?: string
+    channelId: string
+    count: number
+    start: Date
+    end: Date
+    retentionDays: number
+    maxStoredMessages: number
+}
+
+// 跨群总览中单个群的基础统计，不经过 LLM
+export interface GroupOverviewEntry {
+    platform: string
+    selfId: string
+    guildId?: string
+    channelId: string
+    groupName: string
+    totalMessages: number
+    totalParticipants: number
+    totalChars: number
+    mostActivePeriod: string
+    mostActiveUser?: Pick<
+        UserStats,
+        'userId' | 'nickname' | 'messageCount' | 'avatar'
+    >
+    previousMessages: number
+    messageDelta: number
+    messageDeltaRatio: number | null
+    // Messages the per-user figures are based on, set when only the latest
+    // ones of a busy group were read
+    sampledMessages?: number
+}
+
+export type GroupRankingMetric = 'messages' | 'participants' | 'growth'
+
+// 所有已启用监听群的排行总览
+export interface GroupOverview {
+    analysisDate: string
+    days: number
+    totalMessages: number
+    // Members counted once even when active in several groups
+    totalParticipants: number
+    groups: GroupOverviewEntry[]
+}
+
+// 搜索命中的消息及其上下文
+export interface MessageSearchHit {
+    message: StoredMessage
+    before: StoredMessage[]
+    after: StoredMessage[]
+}
+
+export interface MessageSearchResult {
+    keywords: string[]
+    total: number
+    page: number
+    pageSize: number
+    hits: MessageSearchHit[]
+}
+
+// 向量索引中的一段连续消息
+export interface EmbeddingWindow {
+    id: string
+    start: Date
+    end: Date
+    messageIds: string[]
+    vector: number[]
+}
+
+// 语义检索命中的消息片段
+export interface RetrievedMessageWindow {
+    score: number
+    start: Date
+    end: Date
+    messages: StoredMessage[]
+}
+
+export type ChatExportFormat = 'qq' | 'jsonl' | 'telegram'
+
+export type MessageExportFormat = 'jsonl' | 'csv' | 'html'
+
 export interface ActivityStats {
     windowStart: number
     count: number
@@ -187,6 +489,80 @@ export interface PersonaRecord {
     updatedAt?: Date
 }
 
+export interface GroupReportRecord {
+    id: number
+    platform: string
+    selfId: string
+    guildId?: string
+    channelId?: string
+    groupName: string
+    startTime: Date
+    endTime: Date
+    model: string
+    skin: string
+    query?: string
+    totalMessages: number
+    result: string
+    createdAt: Date
+}
+
+// 报告中的单个话题，同一 threadId 的记录属于同一条话题线
+export interface GroupTopicRecord {
+    id: number
+    platform: string
+    selfId: string
+    guildId?: string
+    channelId?: string
+    threadId: string
+    topic: string
+    detail: string
+    contributors: string[]
+    // Base64 Float32 vector, only kept in embedding mode
+    vector?: string
+    vectorModel?: string
+    startTime: Date
+    endTime: Date
+    createdAt: Date
+}
+
+// 跨多次报告反复出现的话题，每天只保留最后一次记录
+export interface TopicThread {
+    threadId: string
+    topic: string
+    firstSeenAt: Date
+    lastSeenAt: Date
+    entries: GroupTopicRecord[]
+}
+
+export interface PrivateChatOptIn {
+    id: string
+    platform: string
+    selfId: string
+    userId: string
+    channelId: string
+    createdAt: Date
+}
+
+export type HistoryBackfillStatus =
+    'pending' | 'running' | 'completed' | 'failed'
+
+// 启用群分析后的历史消息回填任务，用于重启后继续
+export interface HistoryBackfillJob {
+    id: string
+    platform: string
+    selfId: string
+    guildId?: string
+    channelId: string
+    status: HistoryBackfillStatus
+    cursor?: string
+    oldestTimestamp?: Date
+    fetched: number
+    rounds: number
+    error?: string
+    createdAt: Date
+    updatedAt: Date
+}
+
 export interface PersonaCache {
     record: PersonaRecord
     pendingMessages: number
@@ -1,16 +1,233 @@
-import { Context, h } from 'koishi'
+import { Context, h, Universal } from 'koishi'
 
 import {
     BasicStatsResult,
+    ContentLeader,
+    ContentTypeCounts,
+    EmojiLeaderboard,
+    EmojiUser,
+    FaceUsage,
     GroupAnalysisResult,
+    GroupOverview,
+    GroupOverviewEntry,
+    GroupRankingMetric,
+    GroupTrend,
+    InteractionEdge,
+    InteractionGraph,
+    InteractionMember,
+    MemberTrend,
+    MessageContentType,
+    OneBotMessage,
+    RetrievedMessageWindow,
+    SharedLink,
+    StickerUsage,
     StoredMessage,
     UserPersonaProfile,
     UserStats
 } from './types'
-import { Config } from './config'
+import { Config, GroupListener } from './config'
 import type { OneBotBot } from 'koishi-plugin-adapter-onebot'
+import { CQCode } from './onebot/cqcode'
+import { getFaceName } from './onebot/faces'
+import { extractElementLinks, getLinkDomain, LINK_PATTERN } from './links'
 
-import { skinRegistry } from './skins'
+import {
+    CONTENT_TYPE_LABELS,
+    formatMoodScore,
+    formatMoodTime,
+    formatSignedNumber,
+    formatSignedPercent,
+    formatTopicContinuity,
+    formatTopicSession,
+    formatTrendSample,
+    getContentMixItems,
+    getMoodLabel,
+    getStickerLabel,
+    groupLinksByDomain,
+    layoutGroupRanking,
+    skinRegistry
+} from './skins'
+
+export function createContentTypeCounts(): ContentTypeCounts {
+    return {
+        text: 0,
+        image: 0,
+        sticker: 0,
+        face: 0,
+        voice: 0,
+        video: 0,
+        file: 0,
+        link: 0,
+        forward: 0,
+        card: 0
+    }
+}
+
+/**
+ * Map a non-text message element to its content type, covering both the
+ * Satori element names and the raw OneBot segment types.
+ */
+export function classifyElement(el: h): MessageContentType | null {
+    switch (el.type) {
+        case 'img':
+        case 'image':
+            // subType 0 is a regular picture, other values are stickers
+            return el.attrs.subType != null && Number(el.attrs.subType) !== 0
+                ? 'sticker'
+                : 'image'
+        case 'mface':
+        case 'marketface':
+            return 'sticker'
+        case 'face':
+            return 'face'
+        case 'audio':
+        case 'record':
+            return 'voice'
+        case 'video':
+            return 'video'
+        case 'file':
+            return 'file'
+        case 'a':
+            return 'link'
+        case 'forward':
+            return 'forward'
+        case 'message':
+            return el.attrs.forward ? 'forward' : null
+        case 'json':
+        case 'xml':
+        case 'share':
+        case 'music':
+        case 'location':
+        case 'contact':
+            return 'card'
+        default:
+            return null
+    }
+}
+
+/**
+ * Find the member posting the most of each non-text content type
+ * @param users All user statistics of the analyzed window
+ * @returns One leader per content type that anyone posted, largest first
+ */
+export function getContentLeaders(users: UserStats[]): ContentLeader[] {
+    const leaders: ContentLeader[] = []
+
+    for (const type of Object.keys(
+        createContentTypeCounts()
+    ) as MessageContentType[]) {
+        if (type === 'text') continue
+
+        let leader: UserStats | undefined
+        for (const user of users) {
+            const count = user.contentTypes?.[type] ?? 0
+            if (count > (leader?.contentTypes?.[type] ?? 0)) leader = user
+        }
+
+        if (leader) {
+            leaders.push({
+                type,
+                userId: leader.userId,
+                nickname: leader.nickname,
+                count: leader.contentTypes[type]
+            })
+        }
+    }
+
+    return leaders.sort((a, b) => b.count - a.count)
+}
+
+function getStickerKey(el: h): string | undefined {
+    const { attrs } = el
+    const emojiId = attrs.emojiId ?? attrs.emoji_id
+    if (emojiId) return `mface:${emojiId}`
+    return attrs.file || attrs.src || attrs.url || undefined
+}
+
+/**
+ * Count every face id and sticker of the window
+ * @param messages Messages of the analyzed window
+ * @param userStats User statistics, used for member nicknames
+ * @param limit Maximum number of faces and stickers to keep
+ */
+export function buildEmojiLeaderboard(
+    messages: StoredMessage[],
+    userStats: Record<string, UserStats>,
+    limit = 10
+): EmojiLeaderboard {
+    const faces = new Map<string, FaceUsage>()
+    const stickers = new Map<string, StickerUsage & { users: Set<string> }>()
+    const faceUsers = new Map<string, number>()
+    const stickerUsers = new Map<string, number>()
+    let totalFaces = 0
+    let totalStickers = 0
+
+    for (const msg of messages) {
+        const userId = String(msg.userId)
+        const elements = msg.elements || h.parse(msg.content)
+
+        for (const el of elements) {
+            const type = classifyElement(el)
+
+            if (type === 'face') {
+                const id = String(el.attrs.id ?? '')
+                const face = faces.get(id) ?? {
+                    id,
+                    name: getFaceName(id, el.attrs.name),
+                    count: 0
+                }
+                face.count++
+                faces.set(id, face)
+                faceUsers.set(userId, (faceUsers.get(userId) ?? 0) + 1)
+                totalFaces++
+            } else if (type === 'sticker') {
+                totalStickers++
+                stickerUsers.set(userId, (stickerUsers.get(userId) ?? 0) + 1)
+
+                const key = getStickerKey(el)
+                if (!key) continue
+                const sticker = stickers.get(key) ?? {
+                    key,
+                    url: el.attrs.url || el.attrs.src,
+                    summary: el.attrs.summary,
+                    count: 0,
+                    userCount: 0,
+                    users: new Set<string>()
+                }
+                sticker.count++
+                sticker.users.add(userId)
+                stickers.set(key, sticker)
+            }
+        }
+    }
+
+    const topUser = (counts: Map<string, number>): EmojiUser | undefined => {
+        const [top] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])
+        if (!top) return undefined
+        return {
+            userId: top[0],
+            nickname: userStats[top[0]]?.nickname || top[0],
+            count: top[1]
+        }
+    }
+
+    return {
+        totalFaces,
+        totalStickers,
+        faces: Array.from(faces.values())
+            .sort((a, b) => b.count - a.count)
+            .slice(0, limit),
+        stickers: Array.from(stickers.values())
+            .sort((a, b) => b.count - a.count)
+            .slice(0, limit)
+            .map(({ users, ...sticker }) => ({
+                ...sticker,
+                userCount: users.size
+            })),
+        topFaceUser: topUser(faceUsers),
+        topStickerUser: topUser(stickerUsers)
+    }
+}
 
 export function calculateBasicStats(
     messages: StoredMessage[]
@@ -19,6 +236,14 @@ export function calculateBasicStats(
     let totalChars = 0
     let totalEmojiCount = 0
     const allMessagesText: string[] = []
+    const messageTexts: BasicStatsResult['messageTexts'] = []
+    const contentMix = createContentTypeCounts()
+
+    const countContent = (stat: UserStats, type: MessageContentType, n = 1) => {
+        stat.contentTypes[type] += n
+        contentMix[type] += n
+    }
+    const sharedLinks = new Map<string, SharedLink>()
 
     for (const msg of messages) {
         const userId = String(msg.userId)
@@ -44,6 +269,27 @@ export function calculateBasicStats(
         const elements = msg.elements || h.parse(msg.content)
         let pureText = ''
         for (const el of elements) {
+            const contentType = classifyElement(el)
+            if (contentType) countContent(stat, contentType)
+
+            for (const link of extractElementLinks(el)) {
+                const existing = sharedLinks.get(link.url)
+                if (existing) {
+                    existing.shareCount++
+                    existing.title ??= link.title
+                    continue
+                }
+                sharedLinks.set(link.url, {
+                    ...link,
+                    domain: getLinkDomain(link.url),
+                    userId,
+                    nickname: msg.username,
+                    timestamp: msg.timestamp,
+                    messageId: msg.id,
+                    shareCount: 1
+                })
+            }
+
             if (el.type === 'text') {
                 pureText += el.attrs.content
                 // onebot 兼容，添加 reply
@@ -54,20 +300,23 @@ export function calculateBasicStats(
             } else if (el.type === 'face') {
                 stat.emojiStats['face'] = (stat.emojiStats['face'] || 0) + 1
                 totalEmojiCount++
-            } else if (
-                el.type === 'image' &&
-                el.attrs.subType != null &&
-                el.attrs.subType !== 0
-            ) {
+            } else if (contentType === 'sticker') {
                 stat.emojiStats['sticker'] =
                     (stat.emojiStats['sticker'] || 0) + 1
                 totalEmojiCount++
             }
         }
+        const links = pureText.match(LINK_PATTERN)?.length ?? 0
+        if (links) countContent(stat, 'link', links)
+        if (pureText.replace(LINK_PATTERN, '').trim()) {
+            countContent(stat, 'text')
+        }
+
         if (pureText) {
             allMessagesText.push(
                 `${msg.username}(${msg.userId}): ${pureText.trim()}`
             )
+            messageTexts.push({ userId, text: pureText })
         }
 
         stat.charCount += pureText.length || msg.content.length
@@ -90,7 +339,408 @@ export function calculateBasicStats(
             : 0
     }
 
-    return { userStats, totalChars, totalEmojiCount, allMessagesText }
+    return {
+        userStats,
+        totalChars,
+        totalEmojiCount,
+        allMessagesText,
+        messageTexts,
+        contentMix,
+        sharedLinks: Array.from(sharedLinks.values())
+    }
+}
+
+/**
+ * Pack lines into chunks that fit a token budget
+ * @param blocks Lines grouped into blocks, e.g. conversation sessions. A
+ * block that does not fit the current chunk starts a new one, and is only
+ * split when it exceeds the budget on its own.
+ */
+export async function splitMessagesByTokenBudget(
+    blocks: string[][],
+    budget: number,
+    countTokens: (text: string) => Promise<number>
+): Promise<string[][]> {
+    const chunks: string[][] = []
+    let current: string[] = []
+    let currentTokens = 0
+
+    const flush = () => {
+        if (current.length > 0) chunks.push(current)
+        current = []
+        currentTokens = 0
+    }
+
+    for (const block of blocks) {
+        // +1 for the newline joining the lines
+        const lineTokens: number[] = []
+        for (const line of block) {
+            lineTokens.push((await countTokens(line)) + 1)
+        }
+        const blockTokens = lineTokens.reduce((sum, tokens) => sum + tokens, 0)
+
+        if (currentTokens + blockTokens > budget) flush()
+
+        for (const [index, line] of block.entries()) {
+            if (
+                current.length > 0 &&
+                currentTokens + lineTokens[index] > budget
+            ) {
+                flush()
+            }
+            current.push(line)
+            currentTokens += lineTokens[index]
+        }
+    }
+
+    flush()
+
+    return chunks
+}
+
+export function getOverallActiveHours(
+    users: UserStats[]
+): Record<number, number> {
+    return users.reduce(
+        (acc, user) => {
+            for (const hour in user.activeHours) {
+                acc[hour] = (acc[hour] || 0) + user.activeHours[hour]
+            }
+            return acc
+        },
+        {} as Record<number, number>
+    )
+}
+
+export function formatActivePeriod(
+    activeHours: Record<number, number>
+): string {
+    const mostActiveHourEntry = Object.entries(activeHours)
+        .filter(([, count]) => count > 0)
+        .sort((a, b) => b[1] - a[1])[0]
+
+    if (!mostActiveHourEntry) return 'N/A'
+
+    const mostActiveHour = mostActiveHourEntry[0]
+    return `${mostActiveHour.padStart(2, '0')}:00 - ${String(parseInt(mostActiveHour) + 1).padStart(2, '0')}:00`
+}
+
+/**
+ * Compare the current window of a group with the previous one
+ * @param current Statistics of the current window, used for active periods
+ * and nicknames
+ * @param previous Statistics of the previous window, likewise
+ * @param counts Full message counts of each window by user id. Without them
+ * the counts come from the statistics, which may only cover a sample, and
+ * the trend is marked with sampledMessages.
+ * @param sampledMessages Read limit the statistics stopped at, if they did
+ */
+export function buildGroupTrend(
+    current: Record<string, UserStats>,
+    previous: Record<string, UserStats>,
+    previousWindow: { start: Date; end: Date },
+    counts?: {
+        current: Record<string, number>
+        previous: Record<string, number>
+    },
+    sampledMessages?: number,
+    limit = 5
+): GroupTrend {
+    const toCounts = (stats: Record<string, UserStats>) =>
+        Object.fromEntries(
+            Object.entries(stats).map(([userId, user]) => [
+                userId,
+                user.messageCount
+            ])
+        )
+    const currentCounts = counts?.current ?? toCounts(current)
+    const previousCounts = counts?.previous ?? toCounts(previous)
+    const sumMessages = (values: Record<string, number>) =>
+        Object.values(values).reduce((acc, count) => acc + count, 0)
+
+    const currentMessages = sumMessages(currentCounts)
+    const previousMessages = sumMessages(previousCounts)
+    const currentParticipants = Object.keys(currentCounts).length
+    const previousParticipants = Object.keys(previousCounts).length
+
+    const members: MemberTrend[] = Array.from(
+        new Set([...Object.keys(currentCounts), ...Object.keys(previousCounts)])
+    ).map((userId) => {
+        const currentCount = currentCounts[userId] ?? 0
+        const previousCount = previousCounts[userId] ?? 0
+        return {
+            userId,
+            nickname:
+                current[userId]?.nickname ??
+                previous[userId]?.nickname ??
+                userId,
+            currentMessages: currentCount,
+            previousMessages: previousCount,
+            delta: currentCount - previousCount
+        }
+    })
+
+    const continuing = members.filter(
+        (member) => member.currentMessages > 0 && member.previousMessages > 0
+    )
+
+    return {
+        previousStart: previousWindow.start.toLocaleString('zh-CN', {
+            hour12: false
+        }),
+        previousEnd: previousWindow.end.toLocaleString('zh-CN', {
+            hour12: false
+        }),
+        previousMessages,
+        previousParticipants,
+        messageDelta: currentMessages - previousMessages,
+        messageDeltaRatio:
+            previousMessages > 0
+                ? (currentMessages - previousMessages) / previousMessages
+                : null,
+        participantDelta: currentParticipants - previousParticipants,
+        currentMostActivePeriod: formatActivePeriod(
+            getOverallActiveHours(Object.values(current))
+        ),
+        previousMostActivePeriod: formatActivePeriod(
+            getOverallActiveHours(Object.values(previous))
+        ),
+        sampledMessages: counts ? undefined : sampledMessages,
+        newMembers: members
+            .filter((member) => member.previousMessages === 0)
+            .sort((a, b) => b.currentMessages - a.currentMessages)
+            .slice(0, limit),
+        quietMembers: members
+            .filter((member) => member.currentMessages === 0)
+            .sort((a, b) => b.previousMessages - a.previousMessages)
+            .slice(0, limit),
+        risingMembers: continuing
+            .filter((member) => member.delta > 0)
+            .sort((a, b) => b.delta - a.delta)
+            .slice(0, limit),
+        fallingMembers: continuing
+            .filter((member) => member.delta < 0)
+            .sort((a, b) => a.delta - b.delta)
+            .slice(0, limit)
+    }
+}
+
+/**
+ * Basic statistics of one group for the cross-group overview, no LLM involved
+ * @param messages Messages of the current window the per-user figures are
+ * based on, possibly only the latest ones
+ * @param totalMessages Number of messages in the current window
+ * @param previousMessages Number of messages in the previous window of the same length
+ * @param sampled Whether the platform API stopped at a read limit, in which
+ * case totalMessages is a lower bound as well
+ */
+export function buildGroupOverviewEntry(
+    group: {
+        platform: string
+        selfId: string
+        guildId?: string
+        channelId: string
+        groupName: string
+    },
+    messages: StoredMessage[],
+    totalMessages: number,
+    previousMessages: number,
+    sampled = false
+): GroupOverviewEntry {
+    const { userStats, totalChars } = calculateBasicStats(messages)
+    const users = Object.values(userStats)
+    const mostActiveUser = users.sort(
+        (a, b) => b.messageCount - a.messageCount
+    )[0]
+
+    return {
+        ...group,
+        totalMessages,
+        totalParticipants: users.length,
+        totalChars,
+        mostActivePeriod: formatActivePeriod(getOverallActiveHours(users)),
+        mostActiveUser: mostActiveUser && {
+            userId: mostActiveUser.userId,
+            nickname: mostActiveUser.nickname,
+            messageCount: mostActiveUser.messageCount,
+            avatar: mostActiveUser.avatar
+        },
+        previousMessages,
+        messageDelta: totalMessages - previousMessages,
+        messageDeltaRatio:
+            previousMessages > 0
+                ? (totalMessages - previousMessages) / previousMessages
+                : null,
+        sampledMessages:
+            sampled || messages.length < totalMessages
+                ? messages.length
+                : undefined
+    }
+}
+
+/**
+ * Sort the groups of an overview by a metric
+ * @param metric Growth ranks groups without a previous window after the others
+ * @param limit Maximum number of groups to keep
+ */
+export function rankGroupOverview(
+    groups: GroupOverviewEntry[],
+    metric: GroupRankingMetric,
+    limit = 10
+): GroupOverviewEntry[] {
+    const compare = (a: GroupOverviewEntry, b: GroupOverviewEntry) => {
+        if (metric === 'participants') {
+            return (
+                b.totalParticipants - a.totalParticipants ||
+                b.totalMessages - a.totalMessages
+            )
+        }
+        if (metric === 'growth') {
+            if (a.messageDeltaRatio == null || b.messageDeltaRatio == null) {
+                return (
+                    Number(a.messageDeltaRatio == null) -
+                        Number(b.messageDeltaRatio == null) ||
+                    b.totalMessages - a.totalMessages
+                )
+            }
+            return (
+                b.messageDeltaRatio - a.messageDeltaRatio ||
+                b.messageDelta - a.messageDelta
+            )
+        }
+        return b.totalMessages - a.totalMessages
+    }
+
+    return groups
+        .filter(
+            (group) =>
+                metric !== 'growth' ||
+                group.totalMessages + group.previousMessages > 0
+        )
+        .sort(compare)
+        .slice(0, limit)
+}
+
+export function buildInteractionGraph(
+    messages: StoredMessage[],
+    userStats: Record<string, UserStats>,
+    options: { maxNodes?: number; maxEdges?: number; limit?: number } = {}
+): InteractionGraph {
+    const { maxNodes = 20, maxEdges = 40, limit = 5 } = options
+
+    // OneBot replies only carry the quoted message id, so resolve the author
+    // from the messages inside the window
+    const authorByMessageId = new Map<string, string>()
+    for (const msg of messages) {
+        if (msg.messageId) authorByMessageId.set(msg.messageId, msg.userId)
+    }
+
+    const pairs = new Map<string, InteractionEdge>()
+    const addInteraction = (
+        sourceId: string,
+        targetId: string | undefined,
+        kind: 'replies' | 'mentions'
+    ) => {
+        if (!targetId || sourceId === targetId || !userStats[targetId]) return
+
+        const [a, b] = [sourceId, targetId].sort()
+        const key = `${a}:${b}`
+        const edge = pairs.get(key) ?? {
+            sourceId: a,
+            sourceName: userStats[a].nickname,
+            targetId: b,
+            targetName: userStats[b].nickname,
+            replies: 0,
+            mentions: 0,
+            weight: 0
+        }
+        edge[kind]++
+        edge.weight++
+        pairs.set(key, edge)
+    }
+
+    for (const msg of messages) {
+        const sourceId = String(msg.userId)
+        if (!userStats[sourceId]) continue
+
+        const elements = msg.elements || h.parse(msg.content)
+        const metadata = extractMessageMetadata(elements)
+
+        const quoteId = msg.quoteId ?? metadata.quoteId
+        const replyTargetId =
+            msg.quoteUserId ??
+            metadata.quoteUserId ??
+            (quoteId ? authorByMessageId.get(quoteId) : undefined)
+        addInteraction(sourceId, replyTargetId, 'replies')
+
+        const mentioned = msg.mentionedUserIds?.length
+            ? msg.mentionedUserIds
+            : metadata.mentionedUserIds
+        for (const targetId of mentioned) {
+            // QQ inserts an @ of the quoted author into every reply
+            if (replyTargetId && String(targetId) === String(replyTargetId)) {
+                continue
+            }
+            addInteraction(sourceId, targetId, 'mentions')
+        }
+    }
+
+    const edges = Array.from(pairs.values()).sort((a, b) => b.weight - a.weight)
+
+    const members = new Map<string, InteractionMember>(
+        Object.values(userStats).map((user) => [
+            user.userId,
+            {
+                userId: user.userId,
+                nickname: user.nickname,
+                messageCount: user.messageCount,
+                partners: 0,
+                weight: 0
+            }
+        ])
+    )
+    for (const edge of edges) {
+        for (const userId of [edge.sourceId, edge.targetId]) {
+            const member = members.get(userId)
+            member.partners++
+            member.weight += edge.weight
+        }
+    }
+
+    const connected = Array.from(members.values())
+        .filter((member) => member.partners > 0)
+        .sort((a, b) => b.weight - a.weight || b.partners - a.partners)
+    const nodes = connected.slice(0, maxNodes)
+    const nodeIds = new Set(nodes.map((node) => node.userId))
+
+    return {
+        totalInteractions: edges.reduce((acc, edge) => acc + edge.weight, 0),
+        nodes,
+        edges: edges
+            .filter(
+                (edge) =>
+                    nodeIds.has(edge.sourceId) && nodeIds.has(edge.targetId)
+            )
+            .slice(0, maxEdges),
+        centralMembers: [...connected]
+            .sort((a, b) => b.partners - a.partners || b.weight - a.weight)
+            .slice(0, limit),
+        isolatedMembers: Array.from(members.values())
+            .filter((member) => member.partners === 0)
+            .sort((a, b) => b.messageCount - a.messageCount)
+            .slice(0, limit)
+    }
+}
+
+export function getPreviousWindow(window: { start: Date; end: Date }): {
+    start: Date
+    end: Date
+} {
+    const duration = window.end.getTime() - window.start.getTime()
+    return {
+        start: new Date(window.start.getTime() - duration),
+        end: new Date(window.start.getTime())
+    }
 }
 
 export function buildPersonaRecordId(
@@ -119,7 +769,8 @@ function getInitialUserStats(msg: StoredMessage): UserStats {
         nightMessages: 0,
         activeHours: Object.fromEntries(
             Array.from({ length: 24 }, (_, i) => [i, 0])
-        )
+        ),
+        contentTypes: createContentTypeCounts()
     }
 }
 
@@ -132,7 +783,11 @@ export function generateTextReport(result: GroupAnalysisResult): string {
     report += `💬 热门话题:\n`
     if (result.topics?.length) {
         result.topics.forEach((t) => {
-            report += `- ${t.topic} (参与者: ${t.contributors.join(', ')})\n  ${t.detail}\n`
+            const continuity = t.continuity
+                ? ` [${formatTopicContinuity(t.continuity)}]`
+                : ''
+            const session = t.startTime ? ` | ${formatTopicSession(t)}` : ''
+            report += `- ${t.topic}${continuity} (参与者: ${t.contributors.join(', ')}${session})\n  ${t.detail}\n`
         })
     } else {
         report += '无明显话题\n'
@@ -156,6 +811,156 @@ export function generateTextReport(result: GroupAnalysisResult): string {
         report += '无金句记录\n'
     }
 
+    if (result.interactionGraph) {
+        const graph = result.interactionGraph
+        const names = (members: InteractionMember[]) =>
+            members.length ? members.map((m) => m.nickname).join(', ') : '无'
+
+        report += `\n🕸️ 互动关系 (共 ${graph.totalInteractions} 次回复/@):\n`
+        if (graph.edges.length) {
+            graph.edges.slice(0, 5).forEach((edge) => {
+                report += `- ${edge.sourceName} ⇄ ${edge.targetName}: ${edge.weight} 次 (回复 ${edge.replies}, @ ${edge.mentions})\n`
+            })
+        } else {
+            report += '无互动记录\n'
+        }
+        report += `社交中心: ${names(graph.centralMembers)}\n`
+        report += `独行侠: ${names(graph.isolatedMembers)}\n`
+    }
+
+    if (result.trend) {
+        const trend = result.trend
+        const names = (members: MemberTrend[], withDelta = false) =>
+            members.length
+                ? members
+                      .map((m) =>
+                          withDelta
+                              ? `${m.nickname} (${formatSignedNumber(m.delta)})`
+                              : m.nickname
+                      )
+                      .join(', ')
+                : '无'
+
+        report += `\n📈 环比变化 (上期: ${trend.previousStart} ~ ${trend.previousEnd})${formatTrendSample(trend)}:\n`
+        report += `消息: ${formatSignedNumber(trend.messageDelta)} (${formatSignedPercent(trend.messageDeltaRatio)}, 上期 ${trend.previousMessages})`
+        report += ` | 参与人数: ${formatSignedNumber(trend.participantDelta)} (上期 ${trend.previousParticipants})\n`
+        report += `最活跃时段: ${trend.currentMostActivePeriod} (上期 ${trend.previousMostActivePeriod})\n`
+        report += `新面孔: ${names(trend.newMembers)}\n`
+        report += `潜水了: ${names(trend.quietMembers)}\n`
+        report += `活跃上升: ${names(trend.risingMembers, true)}\n`
+        report += `活跃下降: ${names(trend.fallingMembers, true)}\n`
+    }
+
+    const mood = result.moodTimeline
+    if (mood) {
+        const activeHours = mood.hours.filter((hour) => hour.messageCount > 0)
+        const happiest = [...activeHours].sort((a, b) => b.score - a.score)[0]
+        const tensest = [...activeHours].sort((a, b) => a.score - b.score)[0]
+
+        report += `\n🎭 情绪曲线:\n`
+        report += `整体情绪: ${getMoodLabel(mood.overall)} (${formatMoodScore(mood.overall)})\n`
+        if (happiest?.score > 0) {
+            report += `最欢乐时段: ${happiest.hour}:00 (${formatMoodScore(happiest.score)})\n`
+        }
+        if (tensest?.score < 0) {
+            report += `最紧张时段: ${tensest.hour}:00 (${formatMoodScore(tensest.score)})\n`
+        }
+        for (const moment of [...mood.positive, ...mood.negative]) {
+            report += `- ${moment.score > 0 ? '😄' : '😠'} ${moment.nickname} ${formatMoodTime(moment.timestamp)}: ${moment.content}\n`
+        }
+    }
+
+    const mixItems = result.contentMix
+        ? getContentMixItems(result.contentMix)
+        : []
+    if (mixItems.length) {
+        report += `\n🧩 内容构成:\n`
+        report +=
+            mixItems
+                .map(
+                    (item) =>
+                        `${item.label} ${item.count} (${Math.round(item.ratio * 100)}%)`
+                )
+                .join(' | ') + '\n'
+        for (const leader of result.contentLeaders ?? []) {
+            report += `- ${CONTENT_TYPE_LABELS[leader.type]}最多: ${leader.nickname} (${leader.count})\n`
+        }
+    }
+
+    const board = result.emojiLeaderboard
+    if (board && board.totalFaces + board.totalStickers > 0) {
+        report += `\n😀 表情排行:\n`
+        report += `小黄脸 ${board.totalFaces} 次 | 表情包 ${board.totalStickers} 张\n`
+        if (board.faces.length) {
+            report += `常用小黄脸: ${board.faces
+                .map((face) => `${face.name}(${face.count})`)
+                .join(' ')}\n`
+        }
+        board.stickers.slice(0, 5).forEach((sticker, index) => {
+            report += `${index + 1}. ${getStickerLabel(sticker)} - ${sticker.count} 次，${sticker.userCount} 人使用\n`
+        })
+        if (board.topStickerUser) {
+            report += `- 表情包之王: ${board.topStickerUser.nickname} (${board.topStickerUser.count})\n`
+        }
+    }
+
+    if (result.sharedLinks?.length) {
+        report += `\n🔗 分享链接:\n`
+        for (const group of groupLinksByDomain(result.sharedLinks)) {
+            report += `[${group.domain}]\n`
+            for (const link of group.links) {
+                report += `- ${link.title ? `${link.title} ` : ''}${link.url} (${link.nickname}${link.shareCount > 1 ? `，${link.shareCount} 次` : ''})\n`
+                if (link.note) report += `  ${link.note}\n`
+            }
+        }
+    }
+
+    if (result.wordFrequency?.terms.length) {
+        const { terms, phrases } = result.wordFrequency
+        report += `\n☁️ 热词:\n`
+        report +=
+            terms
+                .slice(0, 15)
+                .map((term) => `${term.word}(${term.count})`)
+                .join(' ') + '\n'
+        if (phrases.length) {
+            report += `高频短语: ${phrases
+                .slice(0, 5)
+                .map((phrase) => `${phrase.word}(${phrase.count})`)
+                .join(' ')}\n`
+        }
+    }
+
+    return report
+}
+
+export function generateOverviewTextReport(
+    overview: GroupOverview,
+    limit = 10
+): string {
+    let report = `🏅 群聊总览 (${overview.analysisDate}，近 ${overview.days} 天)\n`
+    report += `群数: ${overview.groups.length} | 总消息: ${overview.totalMessages} | 活跃成员: ${overview.totalParticipants}\n`
+
+    const boards: [GroupRankingMetric, string][] = [
+        ['messages', '💬 消息榜'],
+        ['participants', '👥 人气榜'],
+        ['growth', '📈 增长榜']
+    ]
+    for (const [metric, title] of boards) {
+        const rows = layoutGroupRanking(
+            rankGroupOverview(overview.groups, metric, limit),
+            metric
+        )
+        report += `\n${title}:\n`
+        if (!rows.length) {
+            report += '暂无数据\n'
+            continue
+        }
+        for (const row of rows) {
+            report += `${row.rank}. ${row.groupName} - ${row.value} (${row.detail})\n`
+        }
+    }
+
     return report
 }
 
@@ -203,6 +1008,72 @@ export function generateActiveHoursChart(
     return renderer.generateActiveHoursChart(activeHours)
 }
 
+export function generateMoodChart(
+    mood: GroupAnalysisResult['moodTimeline'],
+    skin: string = 'md3'
+): string {
+    const renderer = skinRegistry.getSafe(skin)
+    return renderer.generateMoodChart(mood)
+}
+
+export function formatTrend(
+    trend: GroupAnalysisResult['trend'],
+    skin: string = 'md3'
+): string {
+    const renderer = skinRegistry.getSafe(skin)
+    return renderer.formatTrend(trend)
+}
+
+export function formatInteractionGraph(
+    graph: GroupAnalysisResult['interactionGraph'],
+    skin: string = 'md3'
+): string {
+    const renderer = skinRegistry.getSafe(skin)
+    return renderer.formatInteractionGraph(graph)
+}
+
+export function formatContentMix(
+    mix: GroupAnalysisResult['contentMix'],
+    leaders: GroupAnalysisResult['contentLeaders'],
+    skin: string = 'md3'
+): string {
+    const renderer = skinRegistry.getSafe(skin)
+    return renderer.formatContentMix(mix, leaders)
+}
+
+export function formatEmojiLeaderboard(
+    board: GroupAnalysisResult['emojiLeaderboard'],
+    skin: string = 'md3'
+): string {
+    const renderer = skinRegistry.getSafe(skin)
+    return renderer.formatEmojiLeaderboard(board)
+}
+
+export function formatSharedLinks(
+    links: GroupAnalysisResult['sharedLinks'],
+    skin: string = 'md3'
+): string {
+    const renderer = skinRegistry.getSafe(skin)
+    return renderer.formatSharedLinks(links)
+}
+
+export function formatWordCloud(
+    frequency: GroupAnalysisResult['wordFrequency'],
+    skin: string = 'md3'
+): string {
+    const renderer = skinRegistry.getSafe(skin)
+    return renderer.formatWordCloud(frequency)
+}
+
+export function formatGroupRanking(
+    groups: GroupOverviewEntry[],
+    metric: GroupRankingMetric,
+    skin: string = 'md3'
+): string {
+    const renderer = skinRegistry.getSafe(skin)
+    return renderer.formatGroupRanking(groups, metric)
+}
+
 export function renderTemplate(
     template: string,
     data: Record<string, string>
@@ -251,6 +1122,77 @@ export function shouldListenToMessage(
     })
 }
 
+// Report settings a listenerGroups entry may override
+const GROUP_OVERRIDE_KEYS = [
+    'skin',
+    'theme',
+    'outputFormat',
+    'maxTopics',
+    'maxGoldenQuotes',
+    'promptTopic',
+    'promptUserTitles',
+    'promptGoldenQuotes'
+] as const
+
+function isGroupListener(
+    listener: GroupListener,
+    selfId: string | undefined,
+    target: { guildId?: string; channelId?: string }
+) {
+    return (
+        listener.selfId === selfId &&
+        ((!!target.channelId && listener.channelId === target.channelId) ||
+            (!!target.guildId && listener.guildId === target.guildId))
+    )
+}
+
+/**
+ * Resolve the settings used for reports of a group: the global config with
+ * the overrides of its listenerGroups entry applied
+ * @returns The global config itself when the group has no overrides
+ */
+export function resolveGroupConfig(
+    config: Config,
+    selfId: string,
+    target: { guildId?: string; channelId?: string }
+): Config {
+    const listener = config.listenerGroups?.find((listener) =>
+        isGroupListener(listener, selfId, target)
+    )
+    if (!listener) return config
+
+    const overrides: Partial<Config> = {}
+    for (const key of GROUP_OVERRIDE_KEYS) {
+        const value = listener[key]
+        // Empty cells and 0 mean "use the global value", as for retentionDays
+        if (value) Object.assign(overrides, { [key]: value })
+    }
+
+    return Object.keys(overrides).length ? { ...config, ...overrides } : config
+}
+
+/**
+ * Retention period of a group's stored messages, the same one
+ * cleanupStoredMessages enforces. Listeners are matched by platform and bot
+ * as well, like the cleanup does.
+ */
+export function getGroupRetentionDays(
+    config: Config,
+    target: {
+        platform?: string
+        selfId?: string
+        guildId?: string
+        channelId?: string
+    }
+): number {
+    const listener = config.listenerGroups?.find(
+        (listener) =>
+            listener.platform === target.platform &&
+            isGroupListener(listener, target.selfId, target)
+    )
+    return listener?.retentionDays || config.retentionDays
+}
+
 export function inferPlatformInfo(
     filter: { guildId?: string; channelId?: string },
     listenerGroups: Config['listenerGroups']
@@ -343,6 +1285,33 @@ export function formatMessagesForPersona(messages: StoredMessage[]): string {
         .join('\n')
 }
 
+export function formatRetrievedWindowsForPrompt(
+    windows: RetrievedMessageWindow[]
+): string {
+    const formatTime = (date: Date) =>
+        date.toLocaleString('zh-CN', { hour12: false })
+
+    return windows
+        .map((window, index) => {
+            const lines = window.messages.map((message) => {
+                const text = h
+                    .select(
+                        message.elements ?? h.parse(message.content),
+                        'text'
+                    )
+                    .map((element) => element.attrs.content)
+                    .join('')
+                    .replace(/\s+/g, ' ')
+                return `${message.username}: ${text}`
+            })
+            return [
+                `片段 ${index + 1}（${formatTime(window.start)} ~ ${formatTime(window.end)}，相关度 ${window.score.toFixed(2)}）`,
+                ...lines
+            ].join('\n')
+        })
+        .join('\n\n')
+}
+
 export function formatPersonaForPrompt(
     persona?: UserPersonaProfile | null
 ): string {
@@ -416,6 +1385,117 @@ export function buildMessagePersistenceKey(message: StoredMessage): string {
     return `${message.platform}_${message.selfId}_${scope}`
 }
 
+export function appendQuoteElement(
+    elements: h[],
+    quote?: Universal.Message
+): h[] {
+    if (!quote || elements.some((el) => el.type === 'quote')) return elements
+
+    return elements.concat(
+        h(
+            'quote',
+            {
+                id: quote.id,
+                userId: quote.user?.id,
+                name: quote.user?.name
+            },
+            quote.elements ?? []
+        )
+    )
+}
+
+export function fromOneBotMessage(
+    message: OneBotMessage,
+    target: { selfId: string; channelId: string; guildId?: string }
+): StoredMessage {
+    return {
+        id: `onebot_${message.message_id}`,
+        platform: 'onebot',
+        selfId: target.selfId,
+        channelId: target.channelId,
+        guildId: target.guildId,
+        userId: String(message.sender.user_id),
+        username: message.sender.nickname,
+        content: message.raw_message || '',
+        avatarUrl: getAvatarUrl(message.sender.user_id),
+        timestamp: new Date(message.time * 1000),
+        messageId: String(message.message_id),
+        elements: CQCode.parse(message.raw_message)
+    }
+}
+
+export function fromUniversalMessage(
+    message: Universal.Message,
+    target: {
+        platform: string
+        selfId: string
+        channelId: string
+        guildId?: string
+    }
+): StoredMessage {
+    return {
+        id: `${target.platform}_${target.selfId}_${target.channelId}_${message.id}`,
+        platform: target.platform,
+        selfId: target.selfId,
+        channelId: target.channelId,
+        guildId: message.guild?.id ?? target.guildId,
+        userId: message.user.id,
+        username:
+            message.member?.name ?? message.user.name ?? message.user.nick,
+        content: message.content,
+        timestamp: new Date(message.createdAt ?? message.timestamp),
+        messageId: message.id,
+        avatarUrl: message.user.avatar || '',
+        elements: appendQuoteElement(h.parse(message.content), message.quote)
+    }
+}
+
+export function extractMessageMetadata(
+    elements: h[]
+): Pick<StoredMessage, 'quoteId' | 'quoteUserId' | 'mentionedUserIds'> {
+    const quote = elements.find(
+        (el) => el.type === 'quote' || el.type === 'reply'
+    )
+    const mentionedUserIds = elements
+        .filter((el) => el.type === 'at')
+        .map((el) => String(el.attrs.id ?? el.attrs.qq ?? ''))
+        .filter((id) => id && id !== 'all')
+
+    return {
+        quoteId: quote?.attrs.id != null ? String(quote.attrs.id) : undefined,
+        quoteUserId:
+            quote?.attrs.userId != null
+                ? String(quote.attrs.userId)
+                : undefined,
+        mentionedUserIds: Array.from(new Set(mentionedUserIds))
+    }
+}
+
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+export function serializeElements(elements: h[]): string {
+    return JSON.stringify(elements)
+}
+
+export function deserializeElements(serialized: string): h[] {
+    const revive = (
+        raw: Pick<h, 'type' | 'attrs'> & { children?: unknown[] }
+    ): h =>
+        h(
+            raw.type,
+            raw.attrs ?? {},
+            (raw.children ?? []).map((child) =>
+                revive(child as Parameters<typeof revive>[0])
+            )
+        )
+
+    return (JSON.parse(serialized) as Parameters<typeof revive>[0][]).map(
+        revive
+    )
+}
+
 export async function isNapCatBot(bot: OneBotBot<Context>) {
     if (bot.platform !== 'onebot') {
         return { isRunningNapCat: false, botAppName: '' }
@@ -0,0 +1,136 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { EmbeddingWindow } from './types'
+
+interface VectorStoreFile {
+    version: 1
+    model: string
+    indexedUntil: string | null
+    windows: {
+        id: string
+        start: string
+        end: string
+        messageIds: string[]
+        // Float32 vector encoded as base64 to keep the file small
+        vector: string
+    }[]
+}
+
+export function encodeVector(vector: number[]) {
+    return Buffer.from(new Float32Array(vector).buffer).toString('base64')
+}
+
+export function decodeVector(encoded: string) {
+    const buffer = Buffer.from(encoded, 'base64')
+    return Array.from(
+        new Float32Array(
+            buffer.buffer,
+            buffer.byteOffset,
+            buffer.byteLength / Float32Array.BYTES_PER_ELEMENT
+        )
+    )
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+    let dot = 0
+    let normA = 0
+    let normB = 0
+    const length = Math.min(a.length, b.length)
+    for (let i = 0; i < length; i++) {
+        dot += a[i] * b[i]
+        normA += a[i] * a[i]
+        normB += b[i] * b[i]
+    }
+    if (!normA || !normB) return 0
+    return dot / Math.sqrt(normA * normB)
+}
+
+/**
+ * Brute-force vector store of one group, kept in memory and persisted as a
+ * JSON file. Group histories are bounded by the retention period, so a
+ * linear scan stays fast enough without an ANN index.
+ */
+export class LocalVectorStore {
+    model = ''
+    indexedUntil: Date | null = null
+    windows: EmbeddingWindow[] = []
+
+    constructor(public readonly filePath: string) {}
+
+    async load() {
+        let data: VectorStoreFile
+        try {
+            data = JSON.parse(await fs.readFile(this.filePath, 'utf-8'))
+        } catch {
+            return
+        }
+
+        this.model = data.model
+        this.indexedUntil = data.indexedUntil
+            ? new Date(data.indexedUntil)
+            : null
+        this.windows = data.windows.map((window) => ({
+            id: window.id,
+            start: new Date(window.start),
+            end: new Date(window.end),
+            messageIds: window.messageIds,
+            vector: decodeVector(window.vector)
+        }))
+    }
+
+    async save() {
+        const data: VectorStoreFile = {
+            version: 1,
+            model: this.model,
+            indexedUntil: this.indexedUntil?.toISOString() ?? null,
+            windows: this.windows.map((window) => ({
+                id: window.id,
+                start: window.start.toISOString(),
+                end: window.end.toISOString(),
+                messageIds: window.messageIds,
+                vector: encodeVector(window.vector)
+            }))
+        }
+
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+        // Write then rename so a crash never leaves a truncated index
+        const tempPath = this.filePath + '.tmp'
+        await fs.writeFile(tempPath, JSON.stringify(data))
+        await fs.rename(tempPath, this.filePath)
+    }
+
+    clear(model: string) {
+        this.model = model
+        this.indexedUntil = null
+        this.windows = []
+    }
+
+    add(windows: EmbeddingWindow[]) {
+        this.windows.push(...windows)
+    }
+
+    removeBefore(date: Date) {
+        const before = this.windows.length
+        this.windows = this.windows.filter((window) => window.end >= date)
+        return before - this.windows.length
+    }
+
+    search(
+        vector: number[],
+        topK: number,
+        range: { startTime?: Date; endTime?: Date } = {}
+    ): { window: EmbeddingWindow; score: number }[] {
+        return this.windows
+            .filter(
+                (window) =>
+                    (!range.startTime || window.end >= range.startTime) &&
+                    (!range.endTime || window.start <= range.endTime)
+            )
+            .map((window) => ({
+                window,
+                score: cosineSimilarity(vector, window.vector)
+            }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK)
+    }
+}